@@ -0,0 +1,69 @@
+// One-off migration of base64 audio stored inside video_progress into the recording store.
+// Each inline audioData (kid recordings, the legacy single voiceRecording, and parent
+// voice replies) is written as a file and replaced by an audioId. Quotas are not applied
+// to migrated audio. Safe to re-run: entries that already have an audioId are skipped.
+//
+//   npm run db:push && npm run db:migrate-inline-recordings
+import { randomUUID } from "crypto";
+import { and, eq } from "drizzle-orm";
+import { db } from "../server/db";
+import { recordingStore } from "../server/recordingStore";
+import { recordingsTable, videoProgressTable, type VideoProgress } from "../shared/schema";
+
+type AudioHolder = { audioId?: string; audioData?: string };
+
+async function moveInlineAudio(holder: AudioHolder | undefined, kidId: string, userId: string): Promise<boolean> {
+  if (!holder?.audioData || holder.audioId) return false;
+  const match = /^data:([^;,]+)(?:;[^,]*)?;base64,([\s\S]*)$/.exec(holder.audioData);
+  if (!match) return false;
+
+  const data = Buffer.from(match[2], "base64");
+  const id = `aud_${Date.now()}_${randomUUID().slice(0, 8)}`;
+  const storageKey = `${encodeURIComponent(userId)}/${id}`;
+  await recordingStore.put(storageKey, data);
+  await db.insert(recordingsTable).values({ id, userId, kidId, storageKey, mimeType: match[1], sizeBytes: data.length });
+
+  holder.audioId = id;
+  delete holder.audioData;
+  return true;
+}
+
+async function migrate() {
+  const rows = await db.select().from(videoProgressTable);
+  let moved = 0;
+  let updatedRows = 0;
+
+  for (const row of rows) {
+    const progress: VideoProgress = row.progress;
+    const holders: (AudioHolder | undefined)[] = [
+      progress.voiceRecording,
+      progress.voiceRecording?.review?.voiceReply,
+      progress.redoRequest?.voiceReply,
+      ...(progress.voiceRecordings || []).flatMap(r => [r, r.review?.voiceReply]),
+    ];
+
+    let changed = false;
+    for (const holder of holders) {
+      if (await moveInlineAudio(holder, row.kidId, row.userId)) {
+        moved++;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await db.update(videoProgressTable)
+        .set({ progress })
+        .where(and(eq(videoProgressTable.videoId, row.videoId), eq(videoProgressTable.kidId, row.kidId)));
+      updatedRows++;
+    }
+  }
+
+  console.log(`Moved ${moved} inline recordings out of ${updatedRows} progress rows`);
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Inline recording migration failed:", error);
+    process.exit(1);
+  });
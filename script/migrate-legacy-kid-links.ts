@@ -0,0 +1,28 @@
+// One-off migration for the switch of allow_legacy_kid_links to off by default. Families
+// that already have kids keep accepting their raw kid links until a parent issues access
+// tokens for those devices and turns the setting off. Families with a settings row keep
+// whatever they chose. Safe to re-run.
+//
+//   npm run db:push && npm run db:migrate-legacy-kid-links
+import { db } from "../server/db";
+import { familySettingsTable, kidsTable } from "../shared/schema";
+
+async function migrate() {
+  const kids = await db.selectDistinct({ userId: kidsTable.userId }).from(kidsTable);
+  const settings = await db.select({ userId: familySettingsTable.userId }).from(familySettingsTable);
+  const configured = new Set(settings.map(s => s.userId));
+
+  const userIds = kids.map(k => k.userId).filter(userId => !configured.has(userId));
+  for (const userId of userIds) {
+    await db.insert(familySettingsTable).values({ userId, allowLegacyKidLinks: true }).onConflictDoNothing();
+  }
+
+  console.log(`Kept legacy kid links on for ${userIds.length} existing families`);
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Legacy kid link migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,51 @@
+// One-off migration of the per-kid JSONB maps on videos (assigned, progress) into the
+// video_assignments and video_progress tables. Existing rows are left alone, so it is
+// safe to re-run. The legacy columns are not cleared; drop them once the data is checked.
+//
+//   npm run db:push && npm run db:migrate-video-progress
+import { db } from "../server/db";
+import { videosTable, videoAssignmentsTable, videoProgressTable } from "../shared/schema";
+
+async function migrate() {
+  const videos = await db.select().from(videosTable);
+  let assignments = 0;
+  let progressRows = 0;
+
+  for (const video of videos) {
+    const assignedKids = Object.keys(video.assigned || {}).filter(kidId => video.assigned[kidId]);
+    if (assignedKids.length > 0) {
+      const inserted = await db.insert(videoAssignmentsTable)
+        .values(assignedKids.map(kidId => ({ videoId: video.id, kidId, userId: video.userId })))
+        .onConflictDoNothing()
+        .returning({ kidId: videoAssignmentsTable.kidId });
+      assignments += inserted.length;
+    }
+
+    const progress = Object.entries(video.progress || {});
+    if (progress.length > 0) {
+      const inserted = await db.insert(videoProgressTable)
+        .values(progress.map(([kidId, p]) => ({
+          videoId: video.id,
+          kidId,
+          userId: video.userId,
+          progress: p,
+          watched: !!p.watched,
+          parentReviewed: p.parentReviewed ?? null,
+          awaitingSignoff: !!p.awaitingSignoff,
+          archived: !!p.archivedAt,
+        })))
+        .onConflictDoNothing()
+        .returning({ kidId: videoProgressTable.kidId });
+      progressRows += inserted.length;
+    }
+  }
+
+  console.log(`Migrated ${videos.length} videos: ${assignments} assignments, ${progressRows} progress rows`);
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Video progress migration failed:", error);
+    process.exit(1);
+  });
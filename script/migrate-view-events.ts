@@ -0,0 +1,50 @@
+// One-off migration from the shared videos.total_views counter to per-kid view events.
+// totalViews was only ever bumped on a kid's first completion, so each completed
+// progress entry becomes one "migrated" view for that kid. Safe to re-run.
+//
+//   npm run db:push && npm run db:migrate-view-events
+import { randomUUID } from "crypto";
+import { and, eq } from "drizzle-orm";
+import { db } from "../server/db";
+import { videosTable, viewEventsTable } from "../shared/schema";
+
+async function migrate() {
+  const videos = await db.select().from(videosTable);
+  let inserted = 0;
+
+  for (const video of videos) {
+    for (const [kidId, progress] of Object.entries(video.progress || {})) {
+      if (!progress.watched && !progress.watchedAt) continue;
+
+      const existing = await db.select({ id: viewEventsTable.id }).from(viewEventsTable).where(and(
+        eq(viewEventsTable.videoId, video.id),
+        eq(viewEventsTable.kidId, kidId),
+        eq(viewEventsTable.source, "migrated"),
+      ));
+      if (existing.length > 0) continue;
+
+      const watchedAt = progress.watchedAt ? new Date(progress.watchedAt) : new Date();
+      const watchedSeconds = Object.values(progress.dailyWatchTime || {}).reduce((sum, s) => sum + s, 0);
+      await db.insert(viewEventsTable).values({
+        id: `ws_${watchedAt.getTime()}_${randomUUID().slice(0, 8)}`,
+        userId: video.userId,
+        videoId: video.id,
+        kidId,
+        startedAt: watchedAt,
+        endedAt: watchedAt,
+        watchedSeconds: Math.round(watchedSeconds),
+        source: "migrated",
+      });
+      inserted++;
+    }
+  }
+
+  console.log(`Created ${inserted} view events from ${videos.length} videos`);
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("View event migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,113 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { ACCOUNT_DELETION_CONFIRM_MINUTES, ACCOUNT_DELETION_GRACE_DAYS, type AccountDeletion, type AccountDeletionState, type AccountDeletionSummary } from "@shared/schema";
+import { authStorage, endUserSessions } from "./replit_integrations/auth";
+import { recordingStore } from "./recordingStore";
+import { storage } from "./storage";
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+function hashCode(code: string): Buffer {
+  return createHash("sha256").update(code.trim().toUpperCase()).digest();
+}
+
+export function toAccountDeletion(state: AccountDeletionState): AccountDeletion {
+  return {
+    status: state.scheduledFor ? "scheduled" : "awaiting_confirmation",
+    requestedAt: state.requestedAt.toISOString(),
+    confirmBy: state.scheduledFor ? null : state.confirmBy.toISOString(),
+    scheduledFor: state.scheduledFor?.toISOString() ?? null,
+  };
+}
+
+export async function getAccountDeletionSummary(userId: string): Promise<AccountDeletionSummary> {
+  const [kids, folders, videos, trash, recordings, subscriptions, kidAccessTokens] = await Promise.all([
+    storage.getKids(userId),
+    storage.getFolders(userId),
+    storage.getVideos(userId),
+    storage.getTrash(userId),
+    storage.getRecordings(userId),
+    storage.getSubscriptions(userId),
+    storage.getKidAccessTokens(userId),
+  ]);
+  return {
+    kids: kids.length + trash.kids.length,
+    folders: folders.length + trash.folders.length,
+    videos: videos.length + trash.videos.length,
+    recordings: recordings.length,
+    subscriptions: subscriptions.length,
+    kidAccessTokens: kidAccessTokens.length,
+  };
+}
+
+// Starts (or restarts) a request. The plain code is only ever returned here.
+export async function requestAccountDeletion(userId: string, now = new Date()): Promise<{ deletion: AccountDeletion | null; code?: string; error?: string }> {
+  const existing = await storage.getAccountDeletion(userId);
+  if (existing?.scheduledFor) {
+    return { deletion: null, error: "Account deletion is already scheduled. Cancel it first to start again." };
+  }
+
+  const code = randomBytes(4).toString("hex").toUpperCase();
+  const state: AccountDeletionState = {
+    codeHash: hashCode(code).toString("hex"),
+    requestedAt: now,
+    confirmBy: new Date(now.getTime() + ACCOUNT_DELETION_CONFIRM_MINUTES * 60 * 1000),
+    scheduledFor: null,
+  };
+  await storage.saveAccountDeletion(userId, state);
+  return { deletion: toAccountDeletion(state), code };
+}
+
+export async function confirmAccountDeletion(userId: string, code: string, now = new Date()): Promise<{ deletion: AccountDeletion | null; error?: string }> {
+  const state = await storage.getAccountDeletion(userId);
+  if (!state) return { deletion: null, error: "No account deletion was requested" };
+  if (state.scheduledFor) return { deletion: toAccountDeletion(state) };
+  if (state.confirmBy < now) return { deletion: null, error: "The confirmation code has expired. Request account deletion again." };
+
+  const expected = Buffer.from(state.codeHash, "hex");
+  const actual = hashCode(code);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { deletion: null, error: "Wrong confirmation code" };
+  }
+
+  const scheduled = { ...state, scheduledFor: new Date(now.getTime() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000) };
+  await storage.saveAccountDeletion(userId, scheduled);
+  return { deletion: toAccountDeletion(scheduled) };
+}
+
+// Removes every row and recording the user owns, then signs them out everywhere. Kid links
+// stop working with the kids and access tokens. The master account's subscribers keep
+// their copies of its playlists.
+export async function deleteAccount(userId: string, masterUserId = process.env.MASTER_USER_ID || ""): Promise<void> {
+  if (masterUserId && userId === masterUserId) {
+    await storage.detachSubscribers(userId);
+  }
+  const { recordingKeys } = await storage.deleteAccountData(userId);
+  for (const key of recordingKeys) {
+    await recordingStore.delete(key);
+  }
+  await endUserSessions(userId);
+  await authStorage.deleteUser(userId);
+}
+
+export async function runDueAccountDeletions(now = new Date()): Promise<number> {
+  const userIds = await storage.getDueAccountDeletions(now);
+  for (const userId of userIds) {
+    await deleteAccount(userId);
+  }
+  return userIds.length;
+}
+
+export function startAccountDeletionJob(): void {
+  const run = async () => {
+    try {
+      const deleted = await runDueAccountDeletions();
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} accounts`);
+      }
+    } catch (error) {
+      console.error("Failed to run account deletions:", error);
+    }
+  };
+  void run();
+  setInterval(run, RUN_INTERVAL_MS).unref();
+}
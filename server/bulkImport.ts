@@ -0,0 +1,187 @@
+import { BULK_IMPORT_MAX_ROWS, BULK_IMPORT_STATUSES, VIDEO_PRIORITY_DEFAULT, VIDEO_PRIORITY_MAX, VIDEO_PRIORITY_MIN, getVideoInfo, type BulkImportResult, type BulkImportRow, type BulkImportStatus, type Folder, type Kid } from "@shared/schema";
+import { storage } from "./storage";
+import { isTikTokShortUrl, resolveTikTokShortUrl } from "./tiktok";
+import { requestMetadataRefresh } from "./videoMetadata";
+
+type ImportLine = { line: number; url: string; playlist: string; priority: string; kids: string };
+
+type CsvRecord = { line: number; fields: string[] };
+
+// Splits CSV text into records. Quoted fields may hold commas, newlines and "" escapes.
+function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = "";
+      recordLine = ++line;
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  records.push({ line: recordLine, fields });
+
+  return records.filter(r => r.fields.some(f => f.trim()));
+}
+
+// A CSV needs a header row with a url column; anything else is a pasted list of links,
+// one or more per line
+function parseImportText(text: string): ImportLine[] {
+  const records = parseCsv(text);
+  const header = records[0]?.fields.map(f => f.trim().toLowerCase()) ?? [];
+  const urlColumn = header.indexOf("url");
+
+  if (urlColumn === -1) {
+    return text.split(/\r?\n/).flatMap((content, i) =>
+      content.split(/[\s,]+/).filter(Boolean).map(url => ({ line: i + 1, url, playlist: "", priority: "", kids: "" }))
+    );
+  }
+
+  const column = (record: CsvRecord, name: string) => {
+    const index = header.indexOf(name);
+    return index === -1 ? "" : (record.fields[index] ?? "").trim();
+  };
+  return records.slice(1).map(record => ({
+    line: record.line,
+    url: column(record, "url"),
+    playlist: column(record, "playlist"),
+    priority: column(record, "priority"),
+    kids: column(record, "kids"),
+  }));
+}
+
+// Kids are listed by name or ID, separated by ";" or "|" (or commas inside a quoted field)
+function resolveKids(value: string, kids: Kid[]): { kidIds: string[]; error?: string } {
+  const kidIds: string[] = [];
+  for (const ref of value.split(/[;|,]/).map(r => r.trim()).filter(Boolean)) {
+    const kid = kids.find(k => k.id === ref || k.name.trim().toLowerCase() === ref.toLowerCase());
+    if (!kid) return { kidIds: [], error: `Unknown kid: ${ref}` };
+    if (!kidIds.includes(kid.id)) kidIds.push(kid.id);
+  }
+  return { kidIds };
+}
+
+function parsePriority(value: string): number | null {
+  if (!value) return VIDEO_PRIORITY_DEFAULT;
+  const priority = Number(value);
+  return Number.isInteger(priority) && priority >= VIDEO_PRIORITY_MIN && priority <= VIDEO_PRIORITY_MAX ? priority : null;
+}
+
+// Adds each row through the same checks as POST /api/videos. Playlists named in the CSV
+// that don't exist yet are created. A dry run writes nothing and reports what would happen.
+export async function importVideos(text: string, dryRun: boolean, userId: string): Promise<{ result: BulkImportResult | null; error?: string }> {
+  const lines = parseImportText(text);
+  if (lines.length === 0) return { result: null, error: "No video links found" };
+  if (lines.length > BULK_IMPORT_MAX_ROWS) return { result: null, error: `Import at most ${BULK_IMPORT_MAX_ROWS} videos at a time` };
+
+  const [kids, folders, videos] = await Promise.all([storage.getKids(userId), storage.getFolders(userId), storage.getVideos(userId)]);
+  const playlists = new Map<string, Folder | null>(
+    folders.filter(f => !f.name.startsWith("__global_")).map(f => [f.name.trim().toLowerCase(), f])
+  );
+  // ytId -> video ID; null for rows a dry run would add
+  const known = new Map<string, string | null>(videos.map(v => [v.ytId, v.id]));
+  const createdPlaylists: string[] = [];
+  const rows: BulkImportRow[] = [];
+
+  for (const line of lines) {
+    const row: BulkImportRow = { line: line.line, url: line.url, status: "invalid", playlist: line.playlist || null, priority: VIDEO_PRIORITY_DEFAULT, kidIds: [] };
+    rows.push(row);
+
+    let url = line.url;
+    if (!url) {
+      row.error = "Missing URL";
+      continue;
+    }
+    if (isTikTokShortUrl(url)) {
+      const resolved = await resolveTikTokShortUrl(url);
+      if (!resolved) {
+        row.status = "unresolved";
+        row.error = "Could not resolve TikTok link";
+        continue;
+      }
+      row.resolvedUrl = url = resolved;
+    }
+
+    const info = getVideoInfo(url);
+    if (!info) {
+      row.error = "Not a YouTube or TikTok video link";
+      continue;
+    }
+    if (known.has(info.videoId)) {
+      row.status = "duplicate";
+      row.videoId = known.get(info.videoId) ?? undefined;
+      continue;
+    }
+
+    const priority = parsePriority(line.priority);
+    if (priority === null) {
+      row.error = `Priority must be a whole number from ${VIDEO_PRIORITY_MIN} to ${VIDEO_PRIORITY_MAX}`;
+      continue;
+    }
+    row.priority = priority;
+
+    const { kidIds, error: kidError } = resolveKids(line.kids, kids);
+    if (kidError) {
+      row.error = kidError;
+      continue;
+    }
+    row.kidIds = kidIds;
+
+    let folder: Folder | null = null;
+    if (line.playlist) {
+      const key = line.playlist.toLowerCase();
+      if (!playlists.has(key)) {
+        playlists.set(key, dryRun ? null : await storage.createFolder({ name: line.playlist }, userId));
+        createdPlaylists.push(line.playlist);
+      }
+      folder = playlists.get(key) ?? null;
+    }
+
+    if (dryRun) {
+      row.status = "added";
+      known.set(info.videoId, null);
+      continue;
+    }
+
+    const { video, error } = await storage.createVideo(url, kidIds, kids, userId, folder?.id ?? null, priority);
+    if (!video) {
+      row.error = error;
+      continue;
+    }
+    row.status = "added";
+    row.videoId = video.id;
+    known.set(info.videoId, video.id);
+    await storage.logActivity(userId, { type: "video_added", actor: "parent", videoId: video.id, details: { url: video.url, folderId: video.folderId ?? null, bulkImport: true } });
+  }
+
+  const counts = Object.fromEntries(BULK_IMPORT_STATUSES.map(s => [s, 0])) as Record<BulkImportStatus, number>;
+  for (const row of rows) counts[row.status]++;
+  if (!dryRun && counts.added > 0) requestMetadataRefresh();
+  return { result: { dryRun, rows, counts, createdPlaylists } };
+}
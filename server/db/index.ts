@@ -2,6 +2,10 @@ import { drizzle } from "drizzle-orm/node-postgres";
 import { Pool } from "pg";
 import * as schema from "@shared/schema";
 
+// STORAGE_BACKEND=memory runs the app without Postgres (local development, API tests).
+// The pool below never connects in that mode because nothing queries it.
+export const isMemoryBackend = process.env.STORAGE_BACKEND === "memory";
+
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
 });
@@ -0,0 +1,270 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { FAMILY_ARCHIVE_VERSION, FAMILY_ARCHIVE_LINE_MAX_BYTES, RECORDING_MAX_BYTES, familyArchiveSchema, familyArchiveRecordingSchema, type FamilyArchive, type FamilyArchiveRecording, type FamilyImportMode, type FamilyImportResult, type Folder, type Kid, type StoredRecording, type Video, type VideoProgress } from "@shared/schema";
+import { storage, getAudioHolders } from "./storage";
+import { deleteRecordingFiles, getRecordingQuotaBytes, newRecordingLocation, readRecording, recordingStore } from "./recordingStore";
+
+function newId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${randomUUID().slice(0, 8)}`;
+}
+
+// Yields the archive line by line, reading each recording only when its line is due
+export async function* exportFamily(userId: string): AsyncGenerator<string> {
+  const [settings, kids, folders, videos, recordings, subscriptions] = await Promise.all([
+    storage.getFamilySettings(userId),
+    storage.getKids(userId),
+    storage.getFolders(userId),
+    storage.getVideos(userId),
+    storage.getRecordings(userId),
+    storage.getSubscriptions(userId),
+  ]);
+
+  const kidEntries: FamilyArchive["kids"] = [];
+  for (const kid of kids) {
+    const screenTime = await storage.getScreenTimeLimit(kid.id, userId);
+    const viewingWindows = await storage.getViewingWindows(kid.id, userId);
+    kidEntries.push({ ...kid, screenTime, viewingWindows });
+  }
+
+  const storageKeys = new Map<string, string>();
+  const recordingEntries: StoredRecording[] = [];
+  for (const { storageKey, ...recording } of recordings) {
+    if ((await recordingStore.size(storageKey)) === null) continue;
+    storageKeys.set(recording.id, storageKey);
+    recordingEntries.push(recording);
+  }
+
+  const archive: FamilyArchive = {
+    version: FAMILY_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings,
+    kids: kidEntries,
+    folders,
+    videos,
+    recordings: recordingEntries,
+    subscriptions: subscriptions.map(s => ({ masterFolderId: s.masterFolderId, kidIds: s.kidIds })),
+  };
+  yield JSON.stringify(archive) + "\n";
+
+  for (const { id } of recordingEntries) {
+    // A file removed since the first line leaves empty data, which the import skips
+    const data = await readRecording(storageKeys.get(id)!);
+    const entry: FamilyArchiveRecording = { id, data: data ? data.toString("base64") : "" };
+    yield JSON.stringify(entry) + "\n";
+  }
+}
+
+// Splits an upload into lines without buffering more than maxBytes. Yields null and stops
+// at a longer line.
+async function* readLines(input: AsyncIterable<Buffer>, maxBytes: number): AsyncGenerator<string | null> {
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+  const take = (tail: Buffer): string => {
+    const line = Buffer.concat([...pending, tail]).toString("utf8");
+    pending = [];
+    pendingBytes = 0;
+    return line;
+  };
+  for await (const chunk of input) {
+    let start = 0;
+    for (let end = chunk.indexOf(10); end !== -1; end = chunk.indexOf(10, start)) {
+      if (pendingBytes + end - start > maxBytes) {
+        yield null;
+        return;
+      }
+      const line = take(chunk.subarray(start, end));
+      if (line.trim()) yield line;
+      start = end + 1;
+    }
+    pending.push(chunk.subarray(start));
+    pendingBytes += chunk.length - start;
+    if (pendingBytes > maxBytes) {
+        yield null;
+        return;
+      }
+  }
+  const line = take(Buffer.alloc(0));
+  if (line.trim()) yield line;
+}
+
+function parseLine<S extends z.ZodTypeAny>(line: string | null, schema: S): { data: z.infer<S> | null; error?: string } {
+  if (line === null) return { data: null, error: "The archive has a line that is too long" };
+  let json: unknown;
+  try {
+    json = JSON.parse(line);
+  } catch {
+    return { data: null, error: "The archive is not valid JSON" };
+  }
+  const parsed = schema.safeParse(json);
+  return parsed.success ? { data: parsed.data } : { data: null, error: parsed.error.message };
+}
+
+const QUOTA_ERROR = "The archive's recordings don't fit in your family's recording storage.";
+
+// Replacing moves the current family to the trash rather than deleting it outright
+async function clearFamily(userId: string): Promise<void> {
+  for (const sub of await storage.getSubscriptions(userId)) {
+    const removal = await storage.unsubscribe(userId, sub.masterFolderId);
+    if (removal) await deleteRecordingFiles(removal.recordingKeys);
+  }
+  for (const video of await storage.getVideos(userId)) {
+    await storage.deleteVideo(video.id, userId);
+  }
+  for (const folder of await storage.getFolders(userId)) {
+    await storage.deleteFolder(folder.id, userId);
+  }
+  for (const kid of await storage.getKids(userId)) {
+    await storage.deleteKid(kid.id, userId);
+  }
+}
+
+function remapKidMap<T>(map: Record<string, T>, kidIds: Map<string, string>): Record<string, T> {
+  const remapped: Record<string, T> = {};
+  for (const [kidId, value] of Object.entries(map)) {
+    const newKidId = kidIds.get(kidId);
+    if (newKidId) remapped[newKidId] = value;
+  }
+  return remapped;
+}
+
+function remapProgress(progress: VideoProgress, audioIds: Map<string, string>): VideoProgress {
+  const copy = structuredClone(progress);
+  for (const holder of getAudioHolders(copy)) {
+    if (!holder.audioId) continue;
+    const audioId = audioIds.get(holder.audioId);
+    if (audioId) holder.audioId = audioId;
+    else delete holder.audioId;
+  }
+  return copy;
+}
+
+// Every kid, folder, video and recording gets a new ID, so an archive can be imported into
+// the account it came from. In merge mode a video already in the library keeps its row and
+// gains the imported kids' assignments and progress.
+export async function importFamily(
+  input: AsyncIterable<Buffer>,
+  userId: string,
+  mode: FamilyImportMode,
+  masterUserId: string
+): Promise<{ result: FamilyImportResult | null; error?: string; tooLarge?: boolean }> {
+  const lines = readLines(input, FAMILY_ARCHIVE_LINE_MAX_BYTES);
+  const first = await lines.next();
+  if (first.done) return { result: null, error: "The archive is empty" };
+  const { data: archive, error } = parseLine(first.value, familyArchiveSchema);
+  if (!archive) return { result: null, error };
+
+  // A replaced family's recordings are in the trash and will be purged, so they don't count
+  const used = mode === "replace" ? 0 : await storage.getRecordingUsage(userId);
+  const allowance = getRecordingQuotaBytes() - used;
+  if (archive.recordings.reduce((sum, r) => sum + r.sizeBytes, 0) > allowance) {
+    return { result: null, error: QUOTA_ERROR, tooLarge: true };
+  }
+
+  const kidIds = new Map(archive.kids.map(k => [k.id, newId("kid")]));
+
+  // Everything is read and staged before the family is touched, so a bad or oversized
+  // archive leaves it as it was
+  const archived = new Map(archive.recordings.map(r => [r.id, r]));
+  const staged: (StoredRecording & { storageKey: string })[] = [];
+  const audioIds = new Map<string, string>();
+  const discard = async (error?: string, tooLarge?: boolean) => {
+    for (const recording of staged) await recordingStore.delete(recording.storageKey);
+    return { result: null, error, tooLarge };
+  };
+  let importBytes = 0;
+  for await (const line of lines) {
+    const { data: entry, error } = parseLine(line, familyArchiveRecordingSchema);
+    if (!entry) return discard(error);
+    const recording = archived.get(entry.id);
+    if (!recording || audioIds.has(entry.id) || !entry.data) continue;
+    const data = Buffer.from(entry.data, "base64");
+    importBytes += data.length;
+    if (data.length > RECORDING_MAX_BYTES || importBytes > allowance) return discard(QUOTA_ERROR, true);
+    const { id, storageKey } = newRecordingLocation(userId);
+    await recordingStore.put(storageKey, data);
+    const kidId = recording.kidId ? kidIds.get(recording.kidId) ?? null : null;
+    staged.push({ id, kidId, mimeType: recording.mimeType, sizeBytes: data.length, storageKey });
+    audioIds.set(recording.id, id);
+  }
+
+  // Synced playlist folders are matched by name so a later sync finds them. A replaced
+  // family has none left once it's cleared.
+  const currentFolders = mode === "replace" ? [] : await storage.getFolders(userId);
+  const folderIds = new Map<string, string>();
+  const folders: Folder[] = [];
+  for (const folder of archive.folders) {
+    const synced = folder.name.startsWith("__global_") ? currentFolders.find(f => f.name === folder.name) : undefined;
+    if (synced) {
+      folderIds.set(folder.id, synced.id);
+      continue;
+    }
+    const id = newId("folder");
+    folderIds.set(folder.id, id);
+    folders.push({ ...folder, id });
+  }
+  for (const folder of folders) {
+    folder.parentId = folder.parentId ? folderIds.get(folder.parentId) ?? null : null;
+  }
+
+  const currentVideos = new Map(mode === "replace" ? [] : (await storage.getVideos(userId)).map(v => [v.ytId, v]));
+  const videos: Video[] = archive.videos.map(video => {
+    const progress: Record<string, VideoProgress> = {};
+    for (const [kidId, p] of Object.entries(remapKidMap(video.progress, kidIds))) {
+      progress[kidId] = remapProgress(p, audioIds);
+    }
+    return {
+      ...video,
+      id: currentVideos.get(video.ytId)?.id ?? newId("vid"),
+      folderId: video.folderId ? folderIds.get(video.folderId) ?? null : null,
+      assigned: remapKidMap(video.assigned, kidIds),
+      progress,
+    };
+  });
+
+  const kids: Kid[] = archive.kids.map(({ screenTime: _screenTime, viewingWindows: _windows, ...kid }) => ({ ...kid, id: kidIds.get(kid.id)! }));
+
+  if (mode === "replace") await clearFamily(userId);
+  for (const recording of staged) {
+    await storage.createRecording(recording, userId);
+  }
+  await storage.importFamilyData({ kids, folders, videos }, userId);
+
+  for (const kid of archive.kids) {
+    const id = kidIds.get(kid.id)!;
+    await storage.setScreenTimeLimit(id, userId, kid.screenTime);
+    await storage.setViewingWindows(id, userId, kid.viewingWindows);
+  }
+  if (mode === "replace") {
+    await storage.updateFamilySettings(userId, archive.settings);
+  }
+
+  let subscriptions = 0;
+  if (masterUserId) {
+    const current = new Map((await storage.getSubscriptions(userId)).map(s => [s.masterFolderId, s]));
+    for (const sub of archive.subscriptions) {
+      // An empty kid list means every kid in the family
+      const imported = sub.kidIds.length > 0
+        ? sub.kidIds.map(id => kidIds.get(id)).filter((id): id is string => !!id)
+        : Array.from(kidIds.values());
+      const existing = current.get(sub.masterFolderId);
+      let targetKidIds: string[];
+      if (existing) {
+        targetKidIds = existing.kidIds.length === 0 ? [] : Array.from(new Set([...existing.kidIds, ...imported]));
+      } else {
+        targetKidIds = mode === "replace" && sub.kidIds.length === 0 ? [] : imported;
+      }
+      await storage.subscribe(userId, sub.masterFolderId, targetKidIds, masterUserId);
+      subscriptions++;
+    }
+  }
+
+  return {
+    result: {
+      kids: kids.length,
+      folders: folders.length,
+      videos: videos.length,
+      recordings: audioIds.size,
+      subscriptions,
+    },
+  };
+}
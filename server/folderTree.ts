@@ -0,0 +1,75 @@
+import { FOLDER_MAX_DEPTH, type Folder, type FolderTreeNode } from "@shared/schema";
+
+type TreeFolder = Pick<Folder, "id" | "parentId">;
+
+// 1 for a top-level folder. A parent that is missing (e.g. in the trash) counts as the top.
+export function getFolderDepth(id: string, folders: TreeFolder[]): number {
+  const byId = new Map(folders.map(f => [f.id, f]));
+  let depth = 0;
+  for (let folder = byId.get(id); folder && depth <= folders.length; folder = folder.parentId ? byId.get(folder.parentId) : undefined) {
+    depth++;
+  }
+  return depth;
+}
+
+export function getDescendantIds(id: string, folders: TreeFolder[]): string[] {
+  const descendants: string[] = [];
+  const pending = [id];
+  while (pending.length > 0) {
+    const parentId = pending.pop();
+    for (const child of folders.filter(f => f.parentId === parentId && !descendants.includes(f.id))) {
+      descendants.push(child.id);
+      pending.push(child.id);
+    }
+  }
+  return descendants;
+}
+
+// A folder's sub-folders, or with parentId null the top-level ones (including folders whose
+// parent is missing, as buildFolderTree shows them)
+export function getChildIds(parentId: string | null, folders: TreeFolder[]): string[] {
+  const ids = new Set(folders.map(f => f.id));
+  return folders
+    .filter(f => parentId === null ? !f.parentId || !ids.has(f.parentId) : f.parentId === parentId)
+    .map(f => f.id);
+}
+
+// The new sibling order when a folder is deleted and its sub-folders move up: they go
+// after the folders already under its parent
+export function getMoveUpOrder(id: string, folders: TreeFolder[]): string[] {
+  const parentId = folders.find(f => f.id === id)?.parentId ?? null;
+  return [...getChildIds(parentId, folders).filter(siblingId => siblingId !== id), ...getChildIds(id, folders)];
+}
+
+// Levels below a folder, counting itself: 1 for a folder without sub-folders
+function getSubtreeHeight(id: string, folders: TreeFolder[]): number {
+  const children = folders.filter(f => f.parentId === id);
+  return 1 + Math.max(0, ...children.map(c => getSubtreeHeight(c.id, folders)));
+}
+
+// Checks putting a folder (or a new one, when id is null) under parentId
+export function getFolderMoveError(id: string | null, parentId: string | null, folders: TreeFolder[]): string | null {
+  if (parentId === null) return null;
+  if (!folders.some(f => f.id === parentId)) return "Parent folder not found";
+  if (id && (parentId === id || getDescendantIds(id, folders).includes(parentId))) {
+    return "A folder can't be moved into itself or one of its sub-folders";
+  }
+  const height = id ? getSubtreeHeight(id, folders) : 1;
+  if (getFolderDepth(parentId, folders) + height > FOLDER_MAX_DEPTH) {
+    return `Folders can only be nested ${FOLDER_MAX_DEPTH} levels deep`;
+  }
+  return null;
+}
+
+// Nests folders under their parents, keeping the given (sibling) order. Folders whose
+// parent isn't in the list are shown at the top.
+export function buildFolderTree(folders: Folder[]): FolderTreeNode[] {
+  const nodes = new Map(folders.map(f => [f.id, { ...f, children: [] as FolderTreeNode[] }]));
+  const roots: FolderTreeNode[] = [];
+  for (const folder of folders) {
+    const node = nodes.get(folder.id)!;
+    const parent = folder.parentId ? nodes.get(folder.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
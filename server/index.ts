@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startTrashPurgeJob } from "./trash";
+import { startAccountDeletionJob } from "./accountDeletion";
+import { startMetadataRefreshJob } from "./videoMetadata";
+import { startRecordingCleanupJob } from "./recordingStore";
+import { containsKidAccessToken, redactKidAccessTokens } from "./kidAccess";
 import { createServer } from "http";
 
 const app = express();
@@ -12,14 +17,24 @@ declare module "http" {
   }
 }
 
-app.use(
-  express.json({
-    limit: '50mb',
+function jsonParser(limit: string) {
+  return express.json({
+    limit,
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
-  }),
-);
+  });
+}
+
+// Recordings are uploaded as raw audio to /api/recordings, so JSON bodies stay small. Older
+// clients still post them inline as base64 audioData when marking a video watched.
+const smallJson = jsonParser('2mb');
+const legacyAudioJson = jsonParser('50mb');
+const LEGACY_AUDIO_PATH = /^\/api\/(videos\/[^/]+\/watched\/[^/]+|public\/kid\/[^/]+\/videos\/[^/]+\/watched)$/;
+
+app.use((req, res, next) => {
+  (LEGACY_AUDIO_PATH.test(req.path) ? legacyAudioJson : smallJson)(req, res, next);
+});
 
 app.use(express.urlencoded({ extended: false }));
 
@@ -36,7 +51,8 @@ export function log(message: string, source = "express") {
 
 app.use((req, res, next) => {
   const start = Date.now();
-  const path = req.path;
+  // Kid routes carry an access token in the path
+  const path = redactKidAccessTokens(req.path);
   let capturedJsonResponse: Record<string, any> | undefined = undefined;
 
   const originalResJson = res.json;
@@ -50,7 +66,9 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        // Issuing or rotating a kid access token returns the plain token
+        const body = JSON.stringify(capturedJsonResponse);
+        logLine += containsKidAccessToken(body) ? " :: [body omitted]" : ` :: ${body}`;
       }
 
       log(logLine);
@@ -101,4 +119,9 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  startTrashPurgeJob();
+  startAccountDeletionJob();
+  startMetadataRefreshJob();
+  startRecordingCleanupJob();
 })();
@@ -0,0 +1,76 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import type { Kid, KidAccessToken } from "@shared/schema";
+import { storage, type ViewOrigin } from "./storage";
+
+// Tokens look like `kat_<timestamp>_<8 hex>.<secret>`; the part before the dot is the row ID
+const TOKEN_PREFIX = "kat_";
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+function getSigningSecret(): string {
+  const secret = process.env.KID_TOKEN_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("KID_TOKEN_SECRET or SESSION_SECRET must be set to use kid access tokens");
+  }
+  return secret;
+}
+
+function hashKidAccessToken(token: string): Buffer {
+  return createHmac("sha256", getSigningSecret()).update(token).digest();
+}
+
+export function isKidAccessToken(value: string): boolean {
+  return value.startsWith(TOKEN_PREFIX) && value.includes(".");
+}
+
+// Matches the secret half of any token in a path or body
+const TOKEN_SECRET_PATTERN = new RegExp(`(${TOKEN_PREFIX}[\\w-]+)\\.[\\w-]+`, "g");
+
+// Keeps the row ID so a log line still shows which token was used
+export function redactKidAccessTokens(text: string): string {
+  return text.replace(TOKEN_SECRET_PATTERN, "$1.[redacted]");
+}
+
+export function containsKidAccessToken(text: string): boolean {
+  return redactKidAccessTokens(text) !== text;
+}
+
+// The plain token is only ever returned here; the database keeps its HMAC
+export async function issueKidAccessToken(kidId: string, userId: string, name: string): Promise<{ accessToken: KidAccessToken; token: string }> {
+  const id = `${TOKEN_PREFIX}${Date.now()}_${randomUUID().slice(0, 8)}`;
+  const token = `${id}.${randomBytes(24).toString("base64url")}`;
+  const accessToken = await storage.createKidAccessToken({ id, kidId, name, tokenHash: hashKidAccessToken(token).toString("hex") }, userId);
+  return { accessToken, token };
+}
+
+export type PublicKid = Kid & { userId: string; accessTokenId: string | null };
+
+// Public kid routes take either an access token or, while the family still allows it, a raw kid ID
+export async function resolvePublicKid(kidRef: string): Promise<PublicKid | undefined> {
+  if (isKidAccessToken(kidRef)) {
+    const record = await storage.getKidAccessTokenForAuth(kidRef.slice(0, kidRef.indexOf(".")));
+    if (!record || record.revokedAt) return undefined;
+
+    const expected = Buffer.from(record.tokenHash, "hex");
+    const actual = hashKidAccessToken(kidRef);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined;
+
+    const kid = await storage.getKid(record.kidId, record.userId);
+    if (!kid) return undefined;
+
+    if (!record.lastUsedAt || Date.now() - new Date(record.lastUsedAt).getTime() > TOUCH_INTERVAL_MS) {
+      await storage.touchKidAccessToken(record.id);
+    }
+    return { ...kid, userId: record.userId, accessTokenId: record.id };
+  }
+
+  const kid = await storage.getKidById(kidRef);
+  if (!kid) return undefined;
+  const settings = await storage.getFamilySettings(kid.userId);
+  if (!settings.allowLegacyKidLinks) return undefined;
+  return { ...kid, accessTokenId: null };
+}
+
+// Views are attributed to the device's token, or to the legacy link
+export function getViewOrigin(kid: PublicKid): ViewOrigin {
+  return kid.accessTokenId ? { source: "kid_device", accessTokenId: kid.accessTokenId } : { source: "kid_link" };
+}
@@ -0,0 +1,35 @@
+import type { VideoMetadata, VideoPlatform } from "@shared/schema";
+import { LocalMetadataProvider } from "./local";
+import type { MetadataProvider, PlaylistMetadata } from "./provider";
+import { TikTokMetadataProvider } from "./tiktok";
+import { YouTubeMetadataProvider } from "./youtube";
+
+export type { MetadataProvider, PlaylistItem, PlaylistMetadata } from "./provider";
+export { LocalMetadataProvider, type MetadataFixtures } from "./local";
+export { TikTokMetadataProvider } from "./tiktok";
+export { YouTubeMetadataProvider } from "./youtube";
+
+// Sends each platform to its own API; only YouTube has playlists
+export class PlatformMetadataProvider implements MetadataProvider {
+  constructor(
+    private readonly youtube: YouTubeMetadataProvider,
+    private readonly tiktok: TikTokMetadataProvider,
+  ) {}
+
+  getVideo(platform: VideoPlatform, videoId: string): Promise<VideoMetadata | null> {
+    return platform === "tiktok" ? this.tiktok.getVideo(videoId) : this.youtube.getVideo(videoId);
+  }
+
+  canFetchPlaylists(): boolean {
+    return this.youtube.canFetchPlaylists();
+  }
+
+  getPlaylist(playlistId: string, maxItems: number): Promise<PlaylistMetadata | null> {
+    return this.youtube.getPlaylist(playlistId, maxItems);
+  }
+}
+
+// METADATA_FIXTURES points the local provider at a JSON file of fixtures
+export const metadataProvider: MetadataProvider = process.env.METADATA_PROVIDER === "local"
+  ? LocalMetadataProvider.fromFile(process.env.METADATA_FIXTURES)
+  : new PlatformMetadataProvider(new YouTubeMetadataProvider(process.env.YOUTUBE_API_KEY), new TikTokMetadataProvider());
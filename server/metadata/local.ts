@@ -0,0 +1,31 @@
+import { readFileSync } from "fs";
+import type { VideoMetadata, VideoPlatform } from "@shared/schema";
+import type { MetadataProvider, PlaylistMetadata } from "./provider";
+
+export type MetadataFixtures = {
+  videos?: Record<string, VideoMetadata>; // keyed by platform video ID
+  playlists?: Record<string, Omit<PlaylistMetadata, "id">>;
+};
+
+// Answers from fixtures instead of the network
+export class LocalMetadataProvider implements MetadataProvider {
+  constructor(private readonly fixtures: MetadataFixtures = {}) {}
+
+  static fromFile(file: string | undefined): LocalMetadataProvider {
+    return new LocalMetadataProvider(file ? JSON.parse(readFileSync(file, "utf8")) : {});
+  }
+
+  async getVideo(_platform: VideoPlatform, videoId: string): Promise<VideoMetadata | null> {
+    return this.fixtures.videos?.[videoId] ?? null;
+  }
+
+  canFetchPlaylists(): boolean {
+    return true;
+  }
+
+  async getPlaylist(playlistId: string, maxItems: number): Promise<PlaylistMetadata | null> {
+    const playlist = this.fixtures.playlists?.[playlistId];
+    if (!playlist) return null;
+    return { id: playlistId, title: playlist.title, items: playlist.items.slice(0, maxItems) };
+  }
+}
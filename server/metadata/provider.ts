@@ -0,0 +1,19 @@
+import type { VideoMetadata, VideoPlatform } from "@shared/schema";
+
+// Looks up video and playlist details from the platforms. The default provider calls each
+// platform's API; METADATA_PROVIDER=local swaps in a fixture-backed stand-in for tests and
+// offline work.
+export type PlaylistItem = { videoId: string; title: string };
+export type PlaylistMetadata = { id: string; title: string; items: PlaylistItem[] }; // items in playlist order
+
+// Platform requests give up after this long
+export const METADATA_FETCH_TIMEOUT_MS = 10_000;
+
+// Both getters return null when the video or playlist doesn't exist or isn't public, and
+// throw when the platform can't be reached. Check canFetchPlaylists before getPlaylist: it
+// is false when the server isn't configured for playlists.
+export interface MetadataProvider {
+  getVideo(platform: VideoPlatform, videoId: string): Promise<VideoMetadata | null>;
+  canFetchPlaylists(): boolean;
+  getPlaylist(playlistId: string, maxItems: number): Promise<PlaylistMetadata | null>;
+}
@@ -0,0 +1,29 @@
+import type { VideoMetadata } from "@shared/schema";
+import { METADATA_FETCH_TIMEOUT_MS } from "./provider";
+
+type OEmbed = { title?: string; author_name?: string; thumbnail_url?: string };
+
+// TikTok's oEmbed endpoint. It has no duration, and sometimes only accepts the
+// @user/video/ form of the URL.
+export class TikTokMetadataProvider {
+  private async oembed(videoUrl: string, headers?: Record<string, string>): Promise<OEmbed | null> {
+    const response = await fetch(`https://www.tiktok.com/oembed?url=${encodeURIComponent(videoUrl)}`, {
+      headers,
+      signal: AbortSignal.timeout(METADATA_FETCH_TIMEOUT_MS),
+    });
+    if (response.status >= 500) throw new Error(`TikTok oEmbed returned ${response.status}`);
+    return response.ok ? await response.json() as OEmbed : null;
+  }
+
+  async getVideo(videoId: string): Promise<VideoMetadata | null> {
+    const data = await this.oembed(`https://www.tiktok.com/video/${videoId}`, { "User-Agent": "Mozilla/5.0 (compatible; bot/1.0)" }).catch(() => null)
+      ?? await this.oembed(`https://www.tiktok.com/@_/video/${videoId}`);
+    if (!data) return null;
+    return {
+      title: data.title || null,
+      author: data.author_name || null,
+      durationSeconds: null,
+      thumbnailUrl: data.thumbnail_url || null,
+    };
+  }
+}
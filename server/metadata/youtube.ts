@@ -0,0 +1,99 @@
+import type { VideoMetadata } from "@shared/schema";
+import { METADATA_FETCH_TIMEOUT_MS, type PlaylistItem, type PlaylistMetadata } from "./provider";
+
+const API_BASE = "https://www.googleapis.com/youtube/v3";
+const PAGE_SIZE = 50; // the Data API maximum
+
+// The parts of the Data API responses we read. Fields are optional because the API leaves
+// out what a video or playlist entry doesn't have.
+type Thumbnail = { url?: string };
+type ApiList<T> = { items?: T[]; nextPageToken?: string };
+type ApiVideo = {
+  snippet?: { title?: string; channelTitle?: string; thumbnails?: Partial<Record<"default" | "medium" | "high", Thumbnail>> };
+  contentDetails?: { duration?: string };
+};
+type ApiPlaylist = { snippet?: { title?: string } };
+type ApiPlaylistItem = {
+  snippet?: { title?: string; resourceId?: { videoId?: string } };
+  status?: { privacyStatus?: string };
+};
+
+// "PT1H2M3S" -> 3723
+function parseIsoDuration(value: string | undefined): number | null {
+  const match = /^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/.exec(value || "");
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match.map(n => parseInt(n || "0", 10));
+  return ((days * 24 + hours) * 60 + minutes) * 60 + seconds;
+}
+
+// YouTube Data API v3, authenticated with an API key. Without a key, videos fall back to
+// oEmbed (no duration) and playlists can't be fetched.
+export class YouTubeMetadataProvider {
+  constructor(private readonly apiKey: string | undefined) {}
+
+  canFetchPlaylists(): boolean {
+    return !!this.apiKey;
+  }
+
+  private async get<T>(resource: string, params: Record<string, string>): Promise<ApiList<T> | null> {
+    if (!this.apiKey) throw new Error("YOUTUBE_API_KEY must be set to call the YouTube Data API");
+    const query = new URLSearchParams({ ...params, key: this.apiKey });
+    const response = await fetch(`${API_BASE}/${resource}?${query}`, { signal: AbortSignal.timeout(METADATA_FETCH_TIMEOUT_MS) });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`YouTube API ${resource} returned ${response.status}`);
+    return await response.json() as ApiList<T>;
+  }
+
+  private async oembed(videoId: string): Promise<VideoMetadata | null> {
+    const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    const response = await fetch(`https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(videoUrl)}`, {
+      signal: AbortSignal.timeout(METADATA_FETCH_TIMEOUT_MS),
+    });
+    if (response.status >= 500) throw new Error(`YouTube oEmbed returned ${response.status}`);
+    if (!response.ok) return null; // 401 for private videos, 404 for deleted ones
+    const data = await response.json() as { title?: string; author_name?: string; thumbnail_url?: string };
+    return { title: data.title || null, author: data.author_name || null, durationSeconds: null, thumbnailUrl: data.thumbnail_url || null };
+  }
+
+  async getVideo(videoId: string): Promise<VideoMetadata | null> {
+    if (!this.apiKey) return this.oembed(videoId);
+
+    const videos = await this.get<ApiVideo>("videos", { part: "snippet,contentDetails", id: videoId });
+    const video = videos?.items?.[0];
+    if (!video) return null;
+    const thumbnails = video.snippet?.thumbnails ?? {};
+    return {
+      title: video.snippet?.title ?? null,
+      author: video.snippet?.channelTitle ?? null,
+      durationSeconds: parseIsoDuration(video.contentDetails?.duration),
+      thumbnailUrl: (thumbnails.high ?? thumbnails.medium ?? thumbnails.default)?.url ?? null,
+    };
+  }
+
+  async getPlaylist(playlistId: string, maxItems: number): Promise<PlaylistMetadata | null> {
+    const playlists = await this.get<ApiPlaylist>("playlists", { part: "snippet", id: playlistId });
+    const title = playlists?.items?.[0]?.snippet?.title;
+    if (!title) return null;
+
+    const items: PlaylistItem[] = [];
+    let pageToken = "";
+    do {
+      const page = await this.get<ApiPlaylistItem>("playlistItems", {
+        part: "snippet,status",
+        playlistId,
+        maxResults: String(PAGE_SIZE),
+        ...(pageToken && { pageToken }),
+      });
+      for (const item of page?.items ?? []) {
+        // Private and deleted entries stay in playlists but can't be played
+        const privacy = item.status?.privacyStatus;
+        const videoId = item.snippet?.resourceId?.videoId;
+        if (!videoId || (privacy !== "public" && privacy !== "unlisted")) continue;
+        items.push({ videoId, title: item.snippet?.title ?? "" });
+      }
+      pageToken = page?.nextPageToken ?? "";
+    } while (pageToken && items.length < maxItems);
+
+    return { id: playlistId, title, items: items.slice(0, maxItems) };
+  }
+}
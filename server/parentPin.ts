@@ -0,0 +1,59 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { PIN_MAX_ATTEMPTS } from "@shared/schema";
+import { storage, type PinLockoutPolicy } from "./storage";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+export type PinVerification =
+  | { verified: true; pinSet: boolean }
+  | { verified: false; attemptsLeft: number; lockedUntil: string | null };
+
+// Stored as `scrypt$<salt hex>$<key hex>`
+export async function hashParentPin(pin: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(pin, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+async function matchesPinHash(pin: string, pinHash: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = pinHash.split("$");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = await scryptAsync(pin, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+const LOCKOUT_POLICY: PinLockoutPolicy = {
+  maxAttempts: PIN_MAX_ATTEMPTS,
+  baseLockoutMs: 15 * 60 * 1000,
+  maxLockoutMs: 24 * 60 * 60 * 1000,
+};
+
+async function getLockedVerification(userId: string): Promise<PinVerification> {
+  const { lockedUntil } = await storage.getParentPinState(userId);
+  return { verified: false, attemptsLeft: 0, lockedUntil: lockedUntil?.toISOString() ?? null };
+}
+
+// The attempt is counted before the PIN is checked, so parallel guesses can't get more
+// than PIN_MAX_ATTEMPTS tries in before the lockout. A correct PIN clears the count again.
+export async function verifyParentPin(userId: string, pin: string, now = new Date()): Promise<PinVerification> {
+  const state = await storage.getParentPinState(userId);
+  if (!state.pinHash) return { verified: true, pinSet: false };
+
+  const attempt = await storage.countParentPinAttempt(userId, now, LOCKOUT_POLICY);
+  if (!attempt) return getLockedVerification(userId);
+
+  if (await matchesPinHash(pin, state.pinHash)) {
+    await storage.updateParentPinState(userId, { failedAttempts: 0, lockedUntil: null });
+    return { verified: true, pinSet: true };
+  }
+
+  return {
+    verified: false,
+    attemptsLeft: attempt.lockedUntil ? 0 : PIN_MAX_ATTEMPTS - (attempt.failedAttempts % PIN_MAX_ATTEMPTS),
+    lockedUntil: attempt.lockedUntil?.toISOString() ?? null,
+  };
+}
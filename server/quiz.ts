@@ -0,0 +1,64 @@
+import type { Kid, KidQuiz, Quiz, QuizAttempt, Video } from "@shared/schema";
+
+export function scoreQuiz(quiz: Quiz, answers: Record<string, string>, now = new Date()): QuizAttempt {
+  const missedQuestionIds = quiz.questions
+    .filter(q => answers[q.id] !== q.correctChoiceId)
+    .map(q => q.id);
+  const correct = quiz.questions.length - missedQuestionIds.length;
+  const score = Math.round((correct / quiz.questions.length) * 100);
+  return {
+    submittedAt: now.toISOString(),
+    answers,
+    score,
+    passed: score >= quiz.passingScore,
+    missedQuestionIds,
+  };
+}
+
+export function toKidQuiz(quiz: Quiz): KidQuiz {
+  return {
+    passingScore: quiz.passingScore,
+    questions: quiz.questions.map(({ correctChoiceId: _answer, ...question }) => question),
+  };
+}
+
+// Kid-facing copy of a video: quiz answers removed
+export function toKidVideo(video: Video): Omit<Video, "quiz"> & { quiz?: KidQuiz | null } {
+  return { ...video, quiz: video.quiz ? toKidQuiz(video.quiz) : video.quiz };
+}
+
+// Latest attempt per kid, with the questions they missed spelled out for parents
+export function getQuizResults(video: Video, kids: Kid[]) {
+  const quiz = video.quiz;
+  if (!quiz) return [];
+  const questions = new Map(quiz.questions.map(q => [q.id, q]));
+
+  return kids
+    .filter(kid => video.assigned[kid.id] || video.progress[kid.id]?.quizAttempts?.length)
+    .map(kid => {
+      const attempts = video.progress[kid.id]?.quizAttempts || [];
+      const latest = attempts[attempts.length - 1];
+      return {
+        kidId: kid.id,
+        kidName: kid.name,
+        attempts: attempts.length,
+        passed: attempts.some(a => a.passed),
+        latest: latest && {
+          submittedAt: latest.submittedAt,
+          score: latest.score,
+          passed: latest.passed,
+          missed: latest.missedQuestionIds
+            .filter(id => questions.has(id))
+            .map(id => {
+              const question = questions.get(id)!;
+              return {
+                questionId: id,
+                prompt: question.prompt,
+                chosenChoiceId: latest.answers[id] ?? null,
+                correctChoiceId: question.correctChoiceId,
+              };
+            }),
+        },
+      };
+    });
+}
@@ -0,0 +1,198 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Readable } from "stream";
+import type { Request, Response } from "express";
+import { RECORDING_MAX_BYTES, RECORDING_QUOTA_BYTES_DEFAULT, type StoredRecording } from "@shared/schema";
+import { storage } from "./storage";
+
+export type ByteRange = { start: number; end: number }; // inclusive
+
+// Where recording bytes live. Metadata (owner, kid, size) is kept by IStorage.
+export interface RecordingStore {
+  put(key: string, data: Buffer): Promise<void>;
+  size(key: string): Promise<number | null>;
+  read(key: string, range?: ByteRange): Readable;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskRecordingStore implements RecordingStore {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) throw new Error("Invalid recording key");
+    return file;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      return (await stat(this.resolve(key))).size;
+    } catch {
+      return null;
+    }
+  }
+
+  read(key: string, range?: ByteRange): Readable {
+    return createReadStream(this.resolve(key), range);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+export const recordingStore: RecordingStore = new LocalDiskRecordingStore(
+  process.env.RECORDINGS_DIR || path.resolve("data", "recordings")
+);
+
+// For the storage keys IStorage hands back after removing recording rows
+export async function deleteRecordingFiles(storageKeys: string[]): Promise<void> {
+  for (const key of storageKeys) {
+    await recordingStore.delete(key);
+  }
+}
+
+export function getRecordingQuotaBytes(): number {
+  const mb = parseInt(process.env.RECORDING_QUOTA_MB || "", 10);
+  return mb > 0 ? mb * 1024 * 1024 : RECORDING_QUOTA_BYTES_DEFAULT;
+}
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+export function getAudioMimeType(contentType: string | undefined): string | null {
+  const mimeType = (contentType || "").split(";")[0].trim().toLowerCase();
+  return mimeType.startsWith("audio/") ? mimeType : null;
+}
+
+export function newRecordingLocation(userId: string): { id: string; storageKey: string } {
+  const id = `aud_${Date.now()}_${randomUUID().slice(0, 8)}`;
+  return { id, storageKey: `${encodeURIComponent(userId)}/${id}` };
+}
+
+// Reads a whole recording, or null if its file is missing
+export async function readRecording(storageKey: string): Promise<Buffer | null> {
+  if ((await recordingStore.size(storageKey)) === null) return null;
+  const chunks: Buffer[] = [];
+  for await (const chunk of recordingStore.read(storageKey)) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function saveRecording(data: Buffer, mimeType: string, kidId: string | null, userId: string): Promise<{ recording: StoredRecording | null; error?: string }> {
+  if (data.length === 0) return { recording: null, error: "Recording is empty" };
+  if (data.length > RECORDING_MAX_BYTES) return { recording: null, error: "Recording is too large" };
+
+  const used = await storage.getRecordingUsage(userId);
+  if (used + data.length > getRecordingQuotaBytes()) {
+    return { recording: null, error: "Your family's recording storage is full. Delete old videos to free up space." };
+  }
+
+  const { id, storageKey } = newRecordingLocation(userId);
+  await recordingStore.put(storageKey, data);
+  const recording = await storage.createRecording({ id, kidId, mimeType, sizeBytes: data.length, storageKey }, userId);
+  return { recording };
+}
+
+const UNATTACHED_TTL_MS = 24 * 60 * 60 * 1000;
+const UNATTACHED_CLEANUP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Uploads that never ended up in a kid's progress (an abandoned reply, a completion that
+// was rejected) would otherwise count toward the quota forever
+export async function purgeUnattachedRecordings(now = new Date()): Promise<number> {
+  const storageKeys = await storage.purgeUnattachedRecordings(new Date(now.getTime() - UNATTACHED_TTL_MS));
+  await deleteRecordingFiles(storageKeys);
+  return storageKeys.length;
+}
+
+export function startRecordingCleanupJob(): void {
+  const run = async () => {
+    try {
+      const purged = await purgeUnattachedRecordings();
+      if (purged > 0) {
+        console.log(`Purged ${purged} unattached recordings`);
+      }
+    } catch (error) {
+      console.error("Failed to purge unattached recordings:", error);
+    }
+  };
+  void run();
+  setInterval(run, UNATTACHED_CLEANUP_INTERVAL_MS).unref();
+}
+
+function parseAudioDataUrl(dataUrl: string): { data: Buffer; mimeType: string } | null {
+  const match = /^data:([^;,]+)(?:;[^,]*)?;base64,([\s\S]*)$/.exec(dataUrl);
+  const mimeType = match && getAudioMimeType(match[1]);
+  if (!match || !mimeType) return null;
+  return { data: Buffer.from(match[2], "base64"), mimeType };
+}
+
+// Accepts a recording or parent reply as sent by clients: an uploaded audioId is checked
+// against the family (and kid), and legacy inline audioData is moved into the store.
+export async function resolveRecordingAudio<T extends { audioId?: string; audioData?: string }>(
+  item: T,
+  kidId: string,
+  userId: string
+): Promise<{ item: T | null; error?: string }> {
+  const { audioData, ...rest } = item;
+  if (audioData) {
+    const parsed = parseAudioDataUrl(audioData);
+    if (!parsed) return { item: null, error: "Invalid audio data" };
+    const saved = await saveRecording(parsed.data, parsed.mimeType, kidId, userId);
+    if (!saved.recording) return { item: null, error: saved.error };
+    return { item: { ...rest, audioId: saved.recording.id } as T };
+  }
+  if (item.audioId) {
+    const recording = await storage.getRecording(item.audioId, userId);
+    if (!recording || (recording.kidId && recording.kidId !== kidId)) {
+      return { item: null, error: "Recording not found" };
+    }
+  }
+  return { item: rest as T };
+}
+
+function parseRange(header: string | undefined, size: number): ByteRange | null | "invalid" {
+  if (!header) return null;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return "invalid";
+  const start = match[1] ? parseInt(match[1], 10) : Math.max(0, size - parseInt(match[2], 10));
+  const end = match[1] && match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  if (start > end || start >= size) return "invalid";
+  return { start, end };
+}
+
+// Streams a stored recording, honouring single-range Range requests so audio players can seek
+export async function sendRecording(req: Request, res: Response, recording: StoredRecording & { storageKey: string }) {
+  const size = await recordingStore.size(recording.storageKey);
+  if (size === null) {
+    return res.status(404).json({ error: "Recording not found" });
+  }
+
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("Content-Type", recording.mimeType);
+  res.setHeader("Cache-Control", "private, max-age=86400");
+
+  const range = parseRange(req.headers.range, size);
+  if (range === "invalid") {
+    res.setHeader("Content-Range", `bytes */${size}`);
+    return res.status(416).end();
+  }
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.setHeader("Content-Length", size);
+  }
+
+  const stream = recordingStore.read(recording.storageKey, range ?? undefined);
+  stream.on("error", () => res.destroy());
+  stream.pipe(res);
+}
@@ -6,7 +6,11 @@ import session from "express-session";
 import type { Express, RequestHandler } from "express";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { sql } from "drizzle-orm";
+import { sessions } from "@shared/models/auth";
 import { authStorage } from "./storage";
+import { db, isMemoryBackend } from "../../db";
 
 const getOidcConfig = memoize(
   async () => {
@@ -18,15 +22,26 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
-export function getSession() {
-  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+function createPgSessionStore(ttl: number) {
   const pgStore = connectPg(session);
-  const sessionStore = new pgStore({
+  return new pgStore({
     conString: process.env.DATABASE_URL,
     createTableIfMissing: false,
-    ttl: sessionTtl,
+    ttl,
     tableName: "sessions",
   });
+}
+
+function createMemorySessionStore(ttl: number) {
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000, ttl });
+}
+
+let sessionStore: session.Store | undefined;
+
+export function getSession() {
+  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+  sessionStore ??= isMemoryBackend ? createMemorySessionStore(sessionTtl) : createPgSessionStore(sessionTtl);
   return session({
     secret: process.env.SESSION_SECRET!,
     store: sessionStore,
@@ -40,6 +55,25 @@ export function getSession() {
   });
 }
 
+// Logs a user out on every device
+export async function endUserSessions(userId: string): Promise<void> {
+  if (!isMemoryBackend) {
+    await db.delete(sessions).where(sql`${sessions.sess} -> 'passport' -> 'user' -> 'claims' ->> 'sub' = ${userId}`);
+    return;
+  }
+
+  const store = sessionStore;
+  if (!store?.all) return;
+  const all = await new Promise<Record<string, any>>((resolve, reject) => {
+    store.all!((err, result) => (err ? reject(err) : resolve(result ?? {})));
+  });
+  for (const [sid, sess] of Object.entries(all)) {
+    if (String(sess?.passport?.user?.claims?.sub) === userId) {
+      await new Promise<void>(resolve => store.destroy(sid, () => resolve()));
+    }
+  }
+}
+
 function updateUserSession(
   user: any,
   tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
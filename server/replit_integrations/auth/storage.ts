@@ -1,12 +1,14 @@
 import { users, type User, type UpsertUser } from "@shared/models/auth";
-import { db } from "../../db";
+import { db, isMemoryBackend } from "../../db";
 import { eq } from "drizzle-orm";
+import crypto from "crypto";
 
 // Interface for auth storage operations
 // (IMPORTANT) These user operations are mandatory for Replit Auth.
 export interface IAuthStorage {
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  deleteUser(id: string): Promise<boolean>;
 }
 
 class AuthStorage implements IAuthStorage {
@@ -29,6 +31,41 @@ class AuthStorage implements IAuthStorage {
       .returning();
     return user;
   }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const rows = await db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return rows.length > 0;
+  }
+}
+
+// Used with STORAGE_BACKEND=memory; users live only as long as the process
+class MemAuthStorage implements IAuthStorage {
+  private users = new Map<string, User>();
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const id = userData.id ?? crypto.randomUUID();
+    const existing = this.users.get(id);
+    const now = new Date();
+    const user: User = {
+      id,
+      email: userData.email ?? existing?.email ?? null,
+      firstName: userData.firstName ?? existing?.firstName ?? null,
+      lastName: userData.lastName ?? existing?.lastName ?? null,
+      profileImageUrl: userData.profileImageUrl ?? existing?.profileImageUrl ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    return this.users.delete(id);
+  }
 }
 
-export const authStorage = new AuthStorage();
+export const authStorage: IAuthStorage = isMemoryBackend ? new MemAuthStorage() : new AuthStorage();
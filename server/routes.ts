@@ -1,52 +1,112 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { type Server } from "http";
 import path from "path";
-import { storage } from "./storage";
-import { insertKidSchema, insertVideoSchema, insertFolderSchema, insertFeedbackSchema, insertGlobalSubscriptionSchema, getVideoInfo, type Kid, videosTable } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { storage, getVideoLockStates, getEffectiveViewLimit } from "./storage";
+import { insertKidSchema, insertVideoSchema, insertFolderSchema, insertFeedbackSchema, insertGlobalSubscriptionSchema, videoAssignmentSchema, batchVideoAssignmentSchema, watchHeartbeatSchema, updateFamilySettingsSchema, screenTimeLimitSchema, viewingWindowsSchema, screenTimeOverrideSchema, insertKidAccessTokenSchema, setParentPinSchema, verifyParentPinSchema, reviewRecordingSchema, completionPolicySchema, signoffSchema, quizSchema, quizSubmissionSchema, kidMergeRequestSchema, UNLOCK_MODES, viewLimitSchema, RECORDING_MAX_BYTES, FAMILY_ARCHIVE_MEDIA_TYPE, FAMILY_IMPORT_MODES, requestAccountDeletionSchema, confirmAccountDeletionSchema, activityQuerySchema, bulkVideoImportSchema, youtubePlaylistImportSchema, youtubePlaylistSyncSchema, videoQuerySchema, VIDEO_QUERY_KEYS, reorderSchema, moveFolderSchema, FOLDER_DELETE_MODES, type FolderDeleteMode, type FamilyImportMode, type Kid, type VideoAssignment, type ViewingAccess, type WatchHeartbeat, type CompletionPolicy, type VoiceRecording, type QuizAttempt, type Video } from "@shared/schema";
 import { setupAuth, registerAuthRoutes, isAuthenticated } from "./replit_integrations/auth";
 import { authStorage } from "./replit_integrations/auth/storage";
+import { importVideos } from "./bulkImport";
+import { confirmAccountDeletion, getAccountDeletionSummary, requestAccountDeletion, toAccountDeletion } from "./accountDeletion";
+import { exportFamily, importFamily } from "./familyArchive";
+import { buildFolderTree, getFolderMoveError } from "./folderTree";
+import { getViewOrigin, issueKidAccessToken, resolvePublicKid } from "./kidAccess";
+import { metadataProvider } from "./metadata";
+import { isTikTokShortUrl, resolveTikTokShortUrl } from "./tiktok";
+import { importYouTubePlaylist, syncYouTubePlaylist } from "./youtubePlaylist";
+import { hashParentPin, verifyParentPin, type PinVerification } from "./parentPin";
+import { getQuizResults, toKidVideo } from "./quiz";
+import { deleteRecordingFiles, getAudioMimeType, getRecordingQuotaBytes, resolveRecordingAudio, saveRecording, sendRecording } from "./recordingStore";
+import { fillVideoMetadata } from "./videoMetadata";
+import { addDays, canOpenLibrary, getFamilyDayKey, getScreenTimeStatus, getViewingAccess } from "./screenTime";
 
-async function resolveTikTokShortUrl(shortUrl: string): Promise<string | null> {
-  try {
-    const response = await fetch(shortUrl, {
-      method: 'HEAD',
-      redirect: 'follow',
-    });
-    const finalUrl = response.url;
-    
-    const videoInfo = getVideoInfo(finalUrl);
-    if (videoInfo && videoInfo.platform === 'tiktok') {
-      return finalUrl;
-    }
-    return null;
-  } catch (error) {
-    console.error('Failed to resolve TikTok short URL:', error);
-    return null;
+function getAssignmentError(changes: VideoAssignment, kids: Kid[]): string | null {
+  const kidIds = new Set(kids.map(k => k.id));
+  const unknown = [...changes.assign, ...changes.unassign].filter(id => !kidIds.has(id));
+  if (unknown.length > 0) return `Unknown kid: ${unknown.join(", ")}`;
+  const conflicting = changes.assign.filter(id => changes.unassign.includes(id));
+  if (conflicting.length > 0) return "A kid cannot be assigned and unassigned at the same time";
+  return null;
+}
+
+// Rolling per-day play time for the last `days` days, newest first
+function buildWatchStats(watchTime: Record<string, number>, today: string, days = 7) {
+  const result: { date: string; seconds: number }[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = addDays(today, -i);
+    result.push({ date, seconds: Math.round(watchTime[date] || 0) });
   }
+  return { days: result, totalSeconds: result.reduce((sum, d) => sum + d.seconds, 0) };
+}
+
+function getAccessDeniedBody(access: ViewingAccess) {
+  const error = access.reason === "outside_window"
+    ? "Videos aren't available right now. Check back when it's video time!"
+    : "Screen time is used up for today. Come back tomorrow!";
+  return { error, nextWindowOpensAt: access.nextWindowOpensAt, access };
+}
+
+// An open session stops counting once the day's screen time runs out, like a new one
+// would. The heartbeat that crosses the limit only counts the seconds that were left.
+function capHeartbeat(heartbeat: WatchHeartbeat, access: ViewingAccess): WatchHeartbeat {
+  const remainingSeconds = access.overrideExpiresAt ? null : access.screenTime.remainingSeconds;
+  if (remainingSeconds === null) return heartbeat;
+  return { ...heartbeat, watchedSeconds: Math.min(heartbeat.watchedSeconds, remainingSeconds) };
 }
 
-function isTikTokShortUrl(url: string): boolean {
-  try {
-    const u = new URL(url);
-    const host = u.hostname.replace('www.', '').toLowerCase();
-    return host === 'vm.tiktok.com' || (host === 'tiktok.com' && u.pathname.startsWith('/t/'));
-  } catch {
-    return false;
+function sendPinVerification(res: Response, result: PinVerification) {
+  if (result.verified) {
+    return res.json(result);
+  }
+  if (result.lockedUntil) {
+    return res.status(423).json({ error: "Too many wrong PINs. Please try again later.", ...result });
   }
+  return res.status(401).json({ error: "Wrong PIN", ...result });
+}
+
+// Activity log details for a completion: where it left the kid's progress
+function getCompletionDetails(video: Video, kidId: string, recording: VoiceRecording | undefined): Record<string, unknown> {
+  const progress = video.progress[kidId];
+  const status = progress?.awaitingSignoff ? "awaiting_signoff" : progress?.watched ? "completed" : "submitted";
+  return { via: "watched", status, withRecording: !!recording };
+}
+
+function getQuizDetails(attempt: QuizAttempt | undefined): Record<string, unknown> {
+  return { via: "quiz", score: attempt?.score ?? null, passed: attempt?.passed ?? false };
+}
+
+function isValidVoiceRecording(voiceRecording: unknown): voiceRecording is VoiceRecording | undefined {
+  if (voiceRecording === undefined || voiceRecording === null) return true;
+  const rec = voiceRecording as VoiceRecording;
+  return typeof rec.recordedAt === 'string' && typeof rec.duration === 'number';
+}
+
+async function resolveVoiceRecordingAudio(voiceRecording: VoiceRecording | null | undefined, kidId: string, userId: string): Promise<{ recording?: VoiceRecording; error?: string }> {
+  if (!voiceRecording) return {};
+  const resolved = await resolveRecordingAudio(voiceRecording, kidId, userId);
+  if (!resolved.item) return { error: resolved.error };
+  return { recording: resolved.item };
 }
 
+// Raw audio bodies for recording uploads; everything else stays JSON
+const audioUpload = express.raw({
+  type: (req) => !!getAudioMimeType(req.headers["content-type"]),
+  limit: RECORDING_MAX_BYTES,
+});
+
 function getUserId(req: Request): string {
   const sub = (req.user as any)?.claims?.sub;
   return sub ? String(sub) : '';
 }
 
+// API tests pass their own authentication in place of the OIDC login
 export async function registerRoutes(
   httpServer: Server,
-  app: Express
+  app: Express,
+  authenticate: (app: Express) => Promise<void> = setupAuth,
 ): Promise<Server> {
-  await setupAuth(app);
+  await authenticate(app);
   registerAuthRoutes(app);
 
   app.get("/api/health", (_req: Request, res: Response) => {
@@ -114,44 +174,25 @@ export async function registerRoutes(
     }
   });
 
+  // Serves the thumbnail cached on the family's video, asking TikTok only when it has none
   app.get("/api/tiktok-thumbnail/:videoId", isAuthenticated, async (req, res) => {
     try {
-      const { videoId } = req.params;
+      const userId = getUserId(req);
+      const videoId = req.params.videoId as string;
       if (!videoId) {
         return res.status(400).json({ error: "Video ID is required" });
       }
-      
-      const videoUrl = `https://www.tiktok.com/video/${videoId}`;
-      const oembedUrl = `https://www.tiktok.com/oembed?url=${encodeURIComponent(videoUrl)}`;
-      
-      const response = await fetch(oembedUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; bot/1.0)'
-        }
-      });
-      
-      if (!response.ok) {
-        const fallbackUrl = `https://www.tiktok.com/@_/video/${videoId}`;
-        const fallbackOembed = `https://www.tiktok.com/oembed?url=${encodeURIComponent(fallbackUrl)}`;
-        const fallbackRes = await fetch(fallbackOembed);
-        
-        if (!fallbackRes.ok) {
-          return res.status(404).json({ error: "Could not fetch thumbnail" });
-        }
-        
-        const fallbackData = await fallbackRes.json() as { thumbnail_url?: string };
-        if (fallbackData.thumbnail_url) {
-          return res.json({ thumbnailUrl: fallbackData.thumbnail_url });
-        }
-        return res.status(404).json({ error: "Thumbnail not found" });
+
+      const video = (await storage.getVideos(userId)).find(v => v.platform === "tiktok" && v.ytId === videoId);
+      if (video?.thumbnailUrl) {
+        return res.json({ thumbnailUrl: video.thumbnailUrl });
       }
-      
-      const data = await response.json() as { thumbnail_url?: string };
-      if (data.thumbnail_url) {
-        res.json({ thumbnailUrl: data.thumbnail_url });
-      } else {
-        res.status(404).json({ error: "Thumbnail not found" });
+      // A lookup for the family's own video is cached on it for next time
+      const metadata = video ? await fillVideoMetadata(video) : await metadataProvider.getVideo("tiktok", videoId);
+      if (!metadata?.thumbnailUrl) {
+        return res.status(404).json({ error: "Thumbnail not found" });
       }
+      res.json({ thumbnailUrl: metadata.thumbnailUrl });
     } catch (error) {
       console.error("Failed to fetch TikTok thumbnail:", error);
       res.status(500).json({ error: "Failed to fetch thumbnail" });
@@ -197,6 +238,7 @@ export async function registerRoutes(
 
       const kid = await storage.createKid(parsed.data, userId);
       console.log("[POST /api/kids] created kid:", JSON.stringify(kid));
+      await storage.logActivity(userId, { type: "kid_added", actor: "parent", kidId: kid.id, details: { name: kid.name } });
       res.status(201).json(kid);
     } catch (error: any) {
       console.error("[POST /api/kids] FAILED:", error?.message, error?.stack);
@@ -222,63 +264,61 @@ export async function registerRoutes(
       if (!kid) {
         return res.status(404).json({ error: "Kid not found" });
       }
+      const previousName = kids.find(k => k.id === id)?.name;
+      if (previousName !== kid.name) {
+        await storage.logActivity(userId, { type: "kid_renamed", actor: "parent", kidId: id, details: { from: previousName, to: kid.name } });
+      }
       res.json(kid);
     } catch (error) {
       res.status(500).json({ error: "Failed to update kid" });
     }
   });
 
-  app.post("/api/kids/cleanup-duplicates", isAuthenticated, async (req: Request, res: Response) => {
+  // Folds one kid into another. With dryRun, returns what would move without changing anything.
+  app.post("/api/kids/merge", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = getUserId(req);
-      const kids = await storage.getKids(userId);
-      const grouped = new Map<string, Kid[]>();
-      for (const kid of kids) {
-        const key = kid.name.toLowerCase().trim();
-        if (!grouped.has(key)) grouped.set(key, []);
-        grouped.get(key)!.push(kid);
-      }
-
-      let hasDups = false;
-      for (const g of Array.from(grouped.values())) { if (g.length > 1) { hasDups = true; break; } }
-      if (!hasDups) return res.json({ removed: 0 });
-
-      const videos = await storage.getVideos(userId);
-      const deleteIds: string[] = [];
-
-      for (const group of Array.from(grouped.values())) {
-        if (group.length <= 1) continue;
-        group.sort((a: Kid, b: Kid) => a.id.localeCompare(b.id));
-        const keeper = group[0];
-        for (let i = 1; i < group.length; i++) {
-          const dupId = group[i].id;
-          deleteIds.push(dupId);
-          for (const video of videos) {
-            if (video.assigned[dupId]) {
-              video.assigned[keeper.id] = true;
-              delete video.assigned[dupId];
-            }
-            if (video.progress[dupId]) {
-              if (!video.progress[keeper.id]?.watched) {
-                video.progress[keeper.id] = video.progress[dupId];
-              }
-              delete video.progress[dupId];
-            }
-          }
-        }
+      const parsed = kidMergeRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
       }
-
-      for (const video of videos) {
-        await db.update(videosTable)
-          .set({ assigned: video.assigned, progress: video.progress })
-          .where(eq(videosTable.id, video.id));
+      const { sourceKidId, targetKidId, dryRun } = parsed.data;
+      const result = await storage.mergeKids(sourceKidId, targetKidId, userId, dryRun);
+      if (!result.merge) {
+        return res.status(400).json({ error: result.error || "Failed to merge kids" });
       }
-      for (const dupId of deleteIds) {
-        await storage.deleteKid(dupId, userId);
+      if (!dryRun && "id" in result.merge) {
+        await storage.logActivity(userId, { type: "kids_merged", actor: "parent", kidId: targetKidId, details: { mergeId: result.merge.id, sourceKidId, targetKidId } });
+      }
+      res.status(dryRun ? 200 : 201).json(result.merge);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to merge kids" });
+    }
+  });
+
+  app.get("/api/kids/merges", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const merges = await storage.getKidMerges(userId);
+      res.json(merges);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch merges" });
+    }
+  });
+
+  app.post("/api/kids/merges/:id/undo", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const id = req.params.id as string;
+      const result = await storage.undoKidMerge(id, userId);
+      if (!result.merge) {
+        return res.status(400).json({ error: result.error || "Failed to undo merge" });
       }
-      res.json({ removed: deleteIds.length });
+      const { sourceKidId, targetKidId } = result.merge;
+      await storage.logActivity(userId, { type: "kid_merge_undone", actor: "parent", kidId: targetKidId, details: { mergeId: id, sourceKidId, targetKidId } });
+      res.json(result.merge);
     } catch (error) {
-      res.status(500).json({ error: "Failed to clean up duplicates" });
+      res.status(500).json({ error: "Failed to undo merge" });
     }
   });
 
@@ -290,12 +330,28 @@ export async function registerRoutes(
       if (!deleted) {
         return res.status(404).json({ error: "Kid not found" });
       }
+      await storage.logActivity(userId, { type: "kid_deleted", actor: "parent", kidId: id });
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: "Failed to delete kid" });
     }
   });
 
+  app.post("/api/kids/:id/restore", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const id = req.params.id as string;
+      const kid = await storage.restoreKid(id, userId);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found in trash" });
+      }
+      await storage.logActivity(userId, { type: "kid_restored", actor: "parent", kidId: id });
+      res.json(kid);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore kid" });
+    }
+  });
+
   app.get("/api/folders", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = getUserId(req);
@@ -313,6 +369,10 @@ export async function registerRoutes(
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.message });
       }
+      const parentError = getFolderMoveError(null, parsed.data.parentId ?? null, await storage.getFolders(userId));
+      if (parentError) {
+        return res.status(400).json({ error: parentError });
+      }
       const folder = await storage.createFolder(parsed.data, userId);
       res.status(201).json(folder);
     } catch (error) {
@@ -324,11 +384,30 @@ export async function registerRoutes(
     try {
       const userId = getUserId(req);
       const id = req.params.id as string;
-      const { name } = req.body;
-      if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      const { name, completionPolicy, unlockMode, viewLimit } = req.body;
+      if (name === undefined && completionPolicy === undefined && unlockMode === undefined && viewLimit === undefined) {
+        return res.status(400).json({ error: "Name is required" });
+      }
+      if (unlockMode !== undefined && !UNLOCK_MODES.includes(unlockMode)) {
+        return res.status(400).json({ error: `Unlock mode must be one of: ${UNLOCK_MODES.join(", ")}` });
+      }
+      if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
         return res.status(400).json({ error: "Name is required" });
       }
-      const folder = await storage.updateFolder(id, userId, { name: name.trim() });
+      const policy = completionPolicySchema.nullable().optional().safeParse(completionPolicy);
+      if (!policy.success) {
+        return res.status(400).json({ error: policy.error.message });
+      }
+      const limit = viewLimitSchema.nullable().optional().safeParse(viewLimit);
+      if (!limit.success) {
+        return res.status(400).json({ error: limit.error.message });
+      }
+      const folder = await storage.updateFolder(id, userId, {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(policy.data !== undefined && { completionPolicy: policy.data }),
+        ...(unlockMode !== undefined && { unlockMode }),
+        ...(limit.data !== undefined && { viewLimit: limit.data }),
+      });
       if (!folder) {
         return res.status(404).json({ error: "Folder not found" });
       }
@@ -342,26 +421,170 @@ export async function registerRoutes(
     try {
       const userId = getUserId(req);
       const id = req.params.id as string;
-      await storage.deleteFolder(id, userId);
+      const children = (req.query.children ?? "trash") as FolderDeleteMode;
+      if (!FOLDER_DELETE_MODES.includes(children)) {
+        return res.status(400).json({ error: `children must be one of: ${FOLDER_DELETE_MODES.join(", ")}` });
+      }
+      const deleted = await storage.deleteFolder(id, userId, children);
+      if (!deleted) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      await storage.logActivity(userId, { type: "folder_deleted", actor: "parent", details: { folderId: id, children } });
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: "Failed to delete folder" });
     }
   });
 
+  app.post("/api/folders/:id/restore", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const id = req.params.id as string;
+      const folder = await storage.restoreFolder(id, userId);
+      if (!folder) {
+        return res.status(404).json({ error: "Folder not found in trash" });
+      }
+      await storage.logActivity(userId, { type: "folder_restored", actor: "parent", details: { folderId: id } });
+      res.json(folder);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore folder" });
+    }
+  });
+
+  // Moves a folder under another one, or to the top level with parentId null
+  app.post("/api/folders/:id/move", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = moveFolderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { folder, error } = await storage.moveFolder(req.params.id as string, parsed.data.parentId, userId);
+      if (!folder) {
+        return res.status(400).json({ error });
+      }
+      res.json(folder);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to move folder" });
+    }
+  });
+
+  // Sets the order of the top-level folders; kid mode lists folders in this order
+  app.put("/api/folders/order", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = reorderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { folders, error } = await storage.reorderFolders(null, parsed.data.ids, userId);
+      if (!folders) {
+        return res.status(400).json({ error });
+      }
+      res.json(folders);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reorder folders" });
+    }
+  });
+
+  // Sets the order of a folder's sub-folders
+  app.put("/api/folders/:id/children/order", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = reorderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { folders, error } = await storage.reorderFolders(req.params.id as string, parsed.data.ids, userId);
+      if (!folders) {
+        return res.status(400).json({ error });
+      }
+      res.json(folders);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reorder folders" });
+    }
+  });
+
+  // Sets the order of a folder's videos. Subscribed playlists follow the master's order on each sync.
+  app.put("/api/folders/:id/videos/order", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = reorderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { videos, error } = await storage.reorderVideos(req.params.id as string, parsed.data.ids, userId);
+      if (!videos) {
+        return res.status(400).json({ error });
+      }
+      res.json(videos);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reorder videos" });
+    }
+  });
+
+  // Creates a folder from a YouTube playlist; importing the same playlist again re-syncs it
+  app.post("/api/folders/youtube-import", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = youtubePlaylistImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { result, error } = await importYouTubePlaylist(parsed.data.url, parsed.data.kidIds, userId);
+      if (!result) {
+        return res.status(400).json({ error });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Failed to import YouTube playlist:", error);
+      res.status(500).json({ error: "Failed to import playlist" });
+    }
+  });
+
+  // Adds videos that were added to the YouTube playlist since the last import or sync
+  app.post("/api/folders/:id/youtube-sync", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = youtubePlaylistSyncSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { result, error } = await syncYouTubePlaylist(req.params.id as string, parsed.data.kidIds, userId);
+      if (!result) {
+        return res.status(400).json({ error });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Failed to sync YouTube playlist:", error);
+      res.status(500).json({ error: "Failed to sync playlist" });
+    }
+  });
+
   const masterCleanedUp = new Set<string>();
   app.get("/api/videos", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = getUserId(req);
       if (MASTER_USER_ID && userId === MASTER_USER_ID && !masterCleanedUp.has(userId)) {
-        await storage.cleanupGlobalData(userId);
+        const { videoIds, recordingKeys } = await storage.cleanupGlobalData(userId);
+        await deleteRecordingFiles(recordingKeys);
+        for (const videoId of videoIds) {
+          await storage.logActivity(userId, { type: "video_deleted", actor: "sync", videoId });
+        }
         masterCleanedUp.add(userId);
       }
       if (MASTER_USER_ID && userId !== MASTER_USER_ID) {
         await storage.syncAllSubscriptions(userId, MASTER_USER_ID);
       }
-      const videos = await storage.getVideos(userId);
-      res.json(videos);
+      // Existing clients call this without query parameters and expect every video
+      if (!Object.keys(req.query).some(key => VIDEO_QUERY_KEYS.includes(key))) {
+        return res.json(await storage.getVideos(userId));
+      }
+      const parsed = videoQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      res.json(await storage.queryVideos(userId, parsed.data));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch videos" });
     }
@@ -382,145 +605,1118 @@ export async function registerRoutes(
         return res.status(400).json({ error: result.error || "Failed to add video" });
       }
 
-      res.status(201).json(result.video);
+      await storage.logActivity(userId, { type: "video_added", actor: "parent", videoId: result.video.id, details: { url: result.video.url, folderId: result.video.folderId ?? null } });
+      res.status(201).json(await fillVideoMetadata(result.video));
     } catch (error) {
       res.status(500).json({ error: "Failed to create video" });
     }
   });
 
+  // Pasted links or a CSV (url, playlist, priority, kids), reported row by row
+  app.post("/api/videos/import", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = bulkVideoImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { result, error } = await importVideos(parsed.data.text, parsed.data.dryRun, userId);
+      if (!result) {
+        return res.status(400).json({ error });
+      }
+      res.status(parsed.data.dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      console.error("Failed to import videos:", error);
+      res.status(500).json({ error: "Failed to import videos" });
+    }
+  });
+
   app.patch("/api/videos/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = getUserId(req);
       const id = req.params.id as string;
-      const { priority, folderId } = req.body;
+      const { priority, folderId, completionPolicy, viewLimit } = req.body;
       
-      const updates: { priority?: number; folderId?: string | null } = {};
+      const updates: { priority?: number; folderId?: string | null; completionPolicy?: CompletionPolicy | null; viewLimit?: number | null } = {};
       if (priority !== undefined) updates.priority = Math.min(9, Math.max(1, parseInt(priority)));
       if (folderId !== undefined) updates.folderId = folderId;
+      if (completionPolicy !== undefined) {
+        const policy = completionPolicySchema.nullable().safeParse(completionPolicy);
+        if (!policy.success) {
+          return res.status(400).json({ error: policy.error.message });
+        }
+        updates.completionPolicy = policy.data;
+      }
+      if (viewLimit !== undefined) {
+        const limit = viewLimitSchema.nullable().safeParse(viewLimit);
+        if (!limit.success) {
+          return res.status(400).json({ error: limit.error.message });
+        }
+        updates.viewLimit = limit.data;
+      }
       
+      const previous = await storage.getVideo(id, userId);
       const video = await storage.updateVideo(id, userId, updates);
-      if (!video) {
+      if (!previous || !video) {
         return res.status(404).json({ error: "Video not found" });
       }
+      if ((previous.folderId ?? null) !== (video.folderId ?? null)) {
+        await storage.logActivity(userId, { type: "video_moved", actor: "parent", videoId: id, details: { from: previous.folderId ?? null, to: video.folderId ?? null } });
+      }
+      if (previous.priority !== video.priority) {
+        await storage.logActivity(userId, { type: "video_priority_changed", actor: "parent", videoId: id, details: { from: previous.priority, to: video.priority } });
+      }
       res.json(video);
     } catch (error) {
       res.status(500).json({ error: "Failed to update video" });
     }
   });
 
-  app.delete("/api/videos/:id", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/videos/assignments", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = getUserId(req);
-      const id = req.params.id as string;
-      const deleted = await storage.deleteVideo(id, userId);
-      if (!deleted) {
-        return res.status(404).json({ error: "Video not found" });
+      const parsed = batchVideoAssignmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
       }
-      res.status(204).send();
+      const { videoIds, ...changes } = parsed.data;
+
+      const kids = await storage.getKids(userId);
+      const assignmentError = getAssignmentError(changes, kids);
+      if (assignmentError) {
+        return res.status(400).json({ error: assignmentError });
+      }
+
+      const videos = await storage.updateVideoAssignments(videoIds, userId, changes);
+      const found = new Set(videos.map(v => v.id));
+      res.json({ videos, notFound: videoIds.filter(id => !found.has(id)) });
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete video" });
+      res.status(500).json({ error: "Failed to update assignments" });
     }
   });
 
-  app.post("/api/videos/:videoId/watched/:kidId", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/videos/:id/assignments", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = getUserId(req);
-      const videoId = req.params.videoId as string;
-      const kidId = req.params.kidId as string;
-      const { voiceRecording } = req.body;
-      
-      if (!voiceRecording || typeof voiceRecording.recordedAt !== 'string' || typeof voiceRecording.duration !== 'number' || voiceRecording.duration <= 0) {
-        return res.status(400).json({ error: "A valid voice recording with duration > 0 is required to complete the video" });
+      const id = req.params.id as string;
+      const parsed = videoAssignmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
       }
 
-      const result = await storage.markVideoWatched(videoId, kidId, voiceRecording, userId);
-      
-      if (!result.video) {
-        return res.status(400).json({ error: result.error || "Failed to mark video as watched" });
+      const kids = await storage.getKids(userId);
+      const assignmentError = getAssignmentError(parsed.data, kids);
+      if (assignmentError) {
+        return res.status(400).json({ error: assignmentError });
       }
 
-      res.json(result.video);
+      const [video] = await storage.updateVideoAssignments([id], userId, parsed.data);
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+      res.json(video);
     } catch (error) {
-      res.status(500).json({ error: "Failed to mark video as watched" });
+      res.status(500).json({ error: "Failed to update assignments" });
     }
   });
 
-  app.get("/api/public/kid/:kidId", async (req: Request, res: Response) => {
+  app.delete("/api/videos/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const kidId = req.params.kidId as string;
-      const kid = await storage.getKidById(kidId);
-      if (!kid) {
-        return res.status(404).json({ error: "Kid not found" });
+      const userId = getUserId(req);
+      const id = req.params.id as string;
+      const deleted = await storage.deleteVideo(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Video not found" });
       }
-      res.json({ id: kid.id, name: kid.name, avatar: kid.avatar });
+      await storage.logActivity(userId, { type: "video_deleted", actor: "parent", videoId: id });
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch kid" });
+      res.status(500).json({ error: "Failed to delete video" });
     }
   });
 
-  app.get("/api/public/kid/:kidId/videos", async (req: Request, res: Response) => {
+  app.post("/api/videos/:id/restore", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const kidId = req.params.kidId as string;
-      const kid = await storage.getKidById(kidId);
-      if (!kid) {
-        return res.status(404).json({ error: "Kid not found" });
+      const userId = getUserId(req);
+      const id = req.params.id as string;
+      const result = await storage.restoreVideo(id, userId);
+      if (!result.video) {
+        return res.status(400).json({ error: result.error || "Failed to restore video" });
       }
-      const allVideos = await storage.getVideosByOwner(kid.userId);
-      const kidVideos = allVideos.filter(v => v.assigned?.[kidId]);
-      res.json(kidVideos);
+      await storage.logActivity(userId, { type: "video_restored", actor: "parent", videoId: id });
+      res.json(result.video);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch videos" });
+      res.status(500).json({ error: "Failed to restore video" });
     }
   });
 
-  app.get("/api/public/kid/:kidId/folders", async (req: Request, res: Response) => {
+  // Deleted kids, folders and videos, restorable until purgeAt
+  app.get("/api/trash", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const kidId = req.params.kidId as string;
-      const kid = await storage.getKidById(kidId);
-      if (!kid) {
-        return res.status(404).json({ error: "Kid not found" });
+      const userId = getUserId(req);
+      const trash = await storage.getTrash(userId);
+      res.json(trash);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch trash" });
+    }
+  });
+
+  // Family activity log, newest first. Filter with ?type=&actor=&kidId=&videoId=&since=&until=
+  app.get("/api/activity", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = activityQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
       }
-      const folders = await storage.getFoldersByOwner(kid.userId);
-      res.json(folders);
+      res.json(await storage.getActivity(userId, parsed.data));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch folders" });
+      res.status(500).json({ error: "Failed to fetch activity" });
     }
   });
 
-  app.post("/api/public/kid/:kidId/videos/:videoId/watched", async (req: Request, res: Response) => {
+  app.post("/api/videos/:videoId/watched/:kidId", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const kidId = req.params.kidId as string;
+      const userId = getUserId(req);
       const videoId = req.params.videoId as string;
+      const kidId = req.params.kidId as string;
       const { voiceRecording } = req.body;
-
-      if (!voiceRecording || typeof voiceRecording.recordedAt !== 'string' || typeof voiceRecording.duration !== 'number' || voiceRecording.duration <= 0) {
-        return res.status(400).json({ error: "A valid voice recording with duration > 0 is required to complete the video" });
+      
+      // Whether a recording is required depends on the video's completion policy, checked in storage
+      if (!isValidVoiceRecording(voiceRecording)) {
+        return res.status(400).json({ error: "Invalid voice recording" });
       }
 
-      const kid = await storage.getKidById(kidId);
-      if (!kid) {
-        return res.status(404).json({ error: "Kid not found" });
+      const audio = await resolveVoiceRecordingAudio(voiceRecording, kidId, userId);
+      if (audio.error) {
+        return res.status(400).json({ error: audio.error });
       }
 
-      const result = await storage.markVideoWatchedPublic(videoId, kidId, voiceRecording, kid.userId);
-
+      const result = await storage.markVideoWatched(videoId, kidId, audio.recording, userId);
+      
       if (!result.video) {
         return res.status(400).json({ error: result.error || "Failed to mark video as watched" });
       }
 
+      await storage.logActivity(userId, { type: "completion_submitted", actor: "parent", kidId, videoId, details: getCompletionDetails(result.video, kidId, audio.recording) });
       res.json(result.video);
     } catch (error) {
       res.status(500).json({ error: "Failed to mark video as watched" });
     }
   });
 
-  // Badge count endpoints
-  app.get("/api/badge/parent", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/videos/:videoId/signoff/:kidId", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = getUserId(req);
-      const count = await storage.getBadgeCountForParent(userId);
-      res.json({ count });
-    } catch (error) {
+      const videoId = req.params.videoId as string;
+      const kidId = req.params.kidId as string;
+      const parsed = signoffSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const result = await storage.signoffVideo(videoId, kidId, parsed.data, userId);
+      if (!result.video) {
+        return res.status(400).json({ error: result.error || "Failed to sign off video" });
+      }
+
+      res.json(result.video);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to sign off video" });
+    }
+  });
+
+  app.post("/api/videos/:videoId/recordings/:kidId/:recordingId/review", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const videoId = req.params.videoId as string;
+      const kidId = req.params.kidId as string;
+      const recordingId = req.params.recordingId as string;
+      const parsed = reviewRecordingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const review = parsed.data;
+      if (review.voiceReply) {
+        const reply = await resolveRecordingAudio(review.voiceReply, kidId, userId);
+        if (!reply.item) {
+          return res.status(400).json({ error: reply.error });
+        }
+        review.voiceReply = reply.item;
+      }
+
+      const result = await storage.reviewRecording(videoId, kidId, recordingId, review, userId);
+      if (!result.video) {
+        return res.status(400).json({ error: result.error || "Failed to review recording" });
+      }
+      await storage.logActivity(userId, { type: "recording_reviewed", actor: "parent", kidId, videoId, details: { recordingId, action: review.action } });
+
+      res.json(result.video);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to review recording" });
+    }
+  });
+
+  // Parent voice replies; ?kidId= is the kid the reply is for, who can then play it back
+  app.post("/api/recordings", isAuthenticated, audioUpload, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const mimeType = getAudioMimeType(req.headers["content-type"]);
+      if (!mimeType || !Buffer.isBuffer(req.body)) {
+        return res.status(415).json({ error: "Upload the recording as an audio/* request body" });
+      }
+      const kidId = typeof req.query.kidId === "string" ? req.query.kidId : "";
+      if (!kidId) {
+        return res.status(400).json({ error: "Kid ID is required" });
+      }
+      if (!(await storage.getKid(kidId, userId))) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+
+      const result = await saveRecording(req.body, mimeType, kidId, userId);
+      if (!result.recording) {
+        return res.status(413).json({ error: result.error });
+      }
+      res.status(201).json(result.recording);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save recording" });
+    }
+  });
+
+  app.get("/api/recordings/usage", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const usedBytes = await storage.getRecordingUsage(userId);
+      res.json({ usedBytes, quotaBytes: getRecordingQuotaBytes() });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch recording usage" });
+    }
+  });
+
+  app.get("/api/recordings/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const recording = await storage.getRecording(req.params.id as string, userId);
+      if (!recording) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      await sendRecording(req, res, recording);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to stream recording" });
+    }
+  });
+
+  app.put("/api/videos/:id/quiz", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const id = req.params.id as string;
+      const parsed = quizSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const video = await storage.setVideoQuiz(id, userId, parsed.data);
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+      res.json(video);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save quiz" });
+    }
+  });
+
+  app.delete("/api/videos/:id/quiz", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const id = req.params.id as string;
+      const video = await storage.setVideoQuiz(id, userId, null);
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+      res.json(video);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove quiz" });
+    }
+  });
+
+  app.get("/api/videos/:id/quiz/results", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const id = req.params.id as string;
+      const video = await storage.getVideo(id, userId);
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+      if (!video.quiz) {
+        return res.status(404).json({ error: "This video has no quiz" });
+      }
+      const kids = await storage.getKids(userId);
+      res.json(getQuizResults(video, kids));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch quiz results" });
+    }
+  });
+
+  app.post("/api/videos/:videoId/quiz/:kidId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const videoId = req.params.videoId as string;
+      const kidId = req.params.kidId as string;
+      const parsed = quizSubmissionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const result = await storage.submitQuiz(videoId, kidId, parsed.data.answers, userId);
+      if (!result.video) {
+        return res.status(400).json({ error: result.error || "Failed to submit quiz" });
+      }
+
+      await storage.logActivity(userId, { type: "completion_submitted", actor: "parent", kidId, videoId, details: getQuizDetails(result.attempt) });
+      res.json({ video: result.video, attempt: result.attempt });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to submit quiz" });
+    }
+  });
+
+  app.post("/api/videos/:videoId/sessions/:kidId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const videoId = req.params.videoId as string;
+      const kidId = req.params.kidId as string;
+      const access = await getViewingAccess(kidId, userId);
+      if (!access.allowed) {
+        return res.status(403).json(getAccessDeniedBody(access));
+      }
+      const result = await storage.startWatchSession(videoId, kidId, { source: "parent" }, userId);
+      if (!result.session) {
+        return res.status(400).json({ error: result.error || "Failed to start watch session" });
+      }
+      res.status(201).json({ session: result.session, resumePosition: result.resumePosition, access });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to start watch session" });
+    }
+  });
+
+  app.post("/api/videos/:videoId/sessions/:kidId/heartbeat", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const videoId = req.params.videoId as string;
+      const kidId = req.params.kidId as string;
+      const parsed = watchHeartbeatSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const current = await getViewingAccess(kidId, userId);
+      if (!current.allowed) {
+        return res.status(403).json(getAccessDeniedBody(current));
+      }
+      const result = await storage.recordWatchHeartbeat(videoId, kidId, capHeartbeat(parsed.data, current), current.screenTime.today, userId);
+      if (!result.progress) {
+        return res.status(400).json({ error: result.error || "Failed to record heartbeat" });
+      }
+      const access = await getViewingAccess(kidId, userId);
+      res.json({ progress: result.progress, access });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to record heartbeat" });
+    }
+  });
+
+  app.get("/api/videos/:id/views", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const id = req.params.id as string;
+      const kids = await storage.getViewLimitStatus(id, userId);
+      if (!kids) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+      const events = await storage.getViewEvents(userId, { videoId: id });
+      res.json({ kids, events });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch view history" });
+    }
+  });
+
+  app.get("/api/kids/:id/views", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const kidId = req.params.id as string;
+      const kid = await storage.getKid(kidId, userId);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const limit = Math.min(500, Math.max(1, parseInt(req.query.limit as string) || 100));
+      res.json(await storage.getViewEvents(userId, { kidId, limit }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch view history" });
+    }
+  });
+
+  app.get("/api/kids/:id/watch-stats", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const kid = await storage.getKid(req.params.id as string, userId);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const watchTime = await storage.getWatchTimeByDay(kid.id, userId);
+      res.json(buildWatchStats(watchTime, await getFamilyDayKey(userId)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch watch stats" });
+    }
+  });
+
+  app.get("/api/kids/:id/screen-time", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const kid = await storage.getKid(req.params.id as string, userId);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const limit = await storage.getScreenTimeLimit(kid.id, userId);
+      const windows = await storage.getViewingWindows(kid.id, userId);
+      const access = await getViewingAccess(kid.id, userId);
+      res.json({ limit, windows, status: access.screenTime, access });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch screen time" });
+    }
+  });
+
+  app.put("/api/kids/:id/screen-time", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = screenTimeLimitSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const kid = await storage.getKid(req.params.id as string, userId);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const limit = await storage.setScreenTimeLimit(kid.id, userId, parsed.data);
+      const status = await getScreenTimeStatus(kid.id, userId);
+      res.json({ limit, status });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update screen time" });
+    }
+  });
+
+  app.put("/api/kids/:id/viewing-windows", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = viewingWindowsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const kid = await storage.getKid(req.params.id as string, userId);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const windows = await storage.setViewingWindows(kid.id, userId, parsed.data.windows);
+      const access = await getViewingAccess(kid.id, userId);
+      res.json({ windows, access });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update viewing windows" });
+    }
+  });
+
+  app.post("/api/kids/:id/screen-time/override", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = screenTimeOverrideSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const kid = await storage.getKid(req.params.id as string, userId);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const expiresAt = new Date(Date.now() + parsed.data.minutes * 60 * 1000);
+      await storage.setScreenTimeOverride(kid.id, userId, expiresAt);
+      const access = await getViewingAccess(kid.id, userId);
+      res.status(201).json(access);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to grant extra time" });
+    }
+  });
+
+  app.delete("/api/kids/:id/screen-time/override", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const kid = await storage.getKid(req.params.id as string, userId);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      await storage.setScreenTimeOverride(kid.id, userId, null);
+      const access = await getViewingAccess(kid.id, userId);
+      res.json(access);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel extra time" });
+    }
+  });
+
+  app.get("/api/kids/:id/access-tokens", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const kid = await storage.getKid(req.params.id as string, userId);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const tokens = await storage.getKidAccessTokens(userId, kid.id);
+      res.json(tokens);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch access tokens" });
+    }
+  });
+
+  app.post("/api/kids/:id/access-tokens", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = insertKidAccessTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const kid = await storage.getKid(req.params.id as string, userId);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const { accessToken, token } = await issueKidAccessToken(kid.id, userId, parsed.data.name);
+      res.status(201).json({ ...accessToken, token });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create access token" });
+    }
+  });
+
+  app.patch("/api/kid-access-tokens/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = insertKidAccessTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const accessToken = await storage.renameKidAccessToken(req.params.id as string, userId, parsed.data.name);
+      if (!accessToken) {
+        return res.status(404).json({ error: "Access token not found" });
+      }
+      res.json(accessToken);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update access token" });
+    }
+  });
+
+  app.post("/api/kid-access-tokens/:id/rotate", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const id = req.params.id as string;
+      const existing = (await storage.getKidAccessTokens(userId)).find(t => t.id === id);
+      if (!existing || existing.revokedAt) {
+        return res.status(404).json({ error: "Access token not found" });
+      }
+      await storage.revokeKidAccessToken(id, userId);
+      const { accessToken, token } = await issueKidAccessToken(existing.kidId, userId, existing.name);
+      res.status(201).json({ ...accessToken, token });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to rotate access token" });
+    }
+  });
+
+  app.delete("/api/kid-access-tokens/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const revoked = await storage.revokeKidAccessToken(req.params.id as string, userId);
+      if (!revoked) {
+        return res.status(404).json({ error: "Access token not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke access token" });
+    }
+  });
+
+  app.get("/api/family/settings", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const settings = await storage.getFamilySettings(userId);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch family settings" });
+    }
+  });
+
+  app.patch("/api/family/settings", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = updateFamilySettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const settings = await storage.updateFamilySettings(userId, parsed.data);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update family settings" });
+    }
+  });
+
+  app.get("/api/family/pin", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const state = await storage.getParentPinState(userId);
+      const locked = !!state.lockedUntil && state.lockedUntil > new Date();
+      res.json({ hasPin: !!state.pinHash, failedAttempts: state.failedAttempts, lockedUntil: locked ? state.lockedUntil!.toISOString() : null });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch PIN status" });
+    }
+  });
+
+  // Setting the PIN from the parent session is also the reset flow: it clears any lockout
+  app.put("/api/family/pin", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = setParentPinSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const pinHash = await hashParentPin(parsed.data.pin);
+      await storage.updateParentPinState(userId, { pinHash, failedAttempts: 0, lockedUntil: null });
+      res.json({ hasPin: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to set PIN" });
+    }
+  });
+
+  app.delete("/api/family/pin", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      await storage.updateParentPinState(userId, { pinHash: null, failedAttempts: 0, lockedUntil: null });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove PIN" });
+    }
+  });
+
+  app.post("/api/family/pin/verify", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = verifyParentPinSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      sendPinVerification(res, await verifyParentPin(userId, parsed.data.pin));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to verify PIN" });
+    }
+  });
+
+  app.get("/api/family/export", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const lines = exportFamily(userId);
+      const first = await lines.next();
+      res.setHeader("Content-Type", FAMILY_ARCHIVE_MEDIA_TYPE);
+      res.setHeader("Content-Disposition", `attachment; filename="family-${new Date().toISOString().slice(0, 10)}.ndjson"`);
+      res.write(first.value ?? "");
+      await pipeline(Readable.from(lines), res);
+    } catch (error) {
+      console.error("Failed to export family:", error);
+      if (res.headersSent) res.destroy();
+      else res.status(500).json({ error: "Failed to export family" });
+    }
+  });
+
+  // ?mode=merge (default) adds the archive to this family; ?mode=replace moves the
+  // current family to the trash first
+  app.post("/api/family/import", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const mode = req.query.mode === undefined ? "merge" : req.query.mode;
+      if (!FAMILY_IMPORT_MODES.includes(mode as FamilyImportMode)) {
+        return res.status(400).json({ error: `mode must be one of: ${FAMILY_IMPORT_MODES.join(", ")}` });
+      }
+      if (!req.is(FAMILY_ARCHIVE_MEDIA_TYPE)) {
+        return res.status(415).json({ error: `Upload the archive as a ${FAMILY_ARCHIVE_MEDIA_TYPE} request body` });
+      }
+      const { result, error, tooLarge } = await importFamily(req, userId, mode as FamilyImportMode, MASTER_USER_ID);
+      if (!result) {
+        return res.status(tooLarge ? 413 : 400).json({ error });
+      }
+      await storage.logActivity(userId, { type: "family_imported", actor: "parent", details: { mode, ...result } });
+      res.json(result);
+    } catch (error) {
+      console.error("Failed to import family:", error);
+      res.status(500).json({ error: "Failed to import family" });
+    }
+  });
+
+  app.get("/api/account/deletion", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const state = await storage.getAccountDeletion(userId);
+      if (!state) {
+        return res.status(404).json({ error: "No account deletion requested" });
+      }
+      res.json(toAccountDeletion(state));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch account deletion" });
+    }
+  });
+
+  // Step one: returns what will be deleted and a short-lived code to confirm with
+  app.post("/api/account/deletion", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = requestAccountDeletionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const pinState = await storage.getParentPinState(userId);
+      if (pinState.pinHash) {
+        if (!parsed.data.pin) {
+          return res.status(401).json({ error: "PIN is required" });
+        }
+        const verification = await verifyParentPin(userId, parsed.data.pin);
+        if (!verification.verified) {
+          return sendPinVerification(res, verification);
+        }
+      }
+      const { deletion, code, error } = await requestAccountDeletion(userId);
+      if (!deletion) {
+        return res.status(409).json({ error });
+      }
+      const summary = await getAccountDeletionSummary(userId);
+      res.status(201).json({ ...deletion, code, summary, isMaster: !!MASTER_USER_ID && userId === MASTER_USER_ID });
+    } catch (error) {
+      console.error("Failed to request account deletion:", error);
+      res.status(500).json({ error: "Failed to request account deletion" });
+    }
+  });
+
+  // Step two: schedules the deletion after the grace period
+  app.post("/api/account/deletion/confirm", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = confirmAccountDeletionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { deletion, error } = await confirmAccountDeletion(userId, parsed.data.code);
+      if (!deletion) {
+        return res.status(400).json({ error });
+      }
+      res.json(deletion);
+    } catch (error) {
+      console.error("Failed to confirm account deletion:", error);
+      res.status(500).json({ error: "Failed to confirm account deletion" });
+    }
+  });
+
+  app.delete("/api/account/deletion", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const cancelled = await storage.cancelAccountDeletion(userId);
+      if (!cancelled) {
+        return res.status(404).json({ error: "No account deletion requested" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel account deletion" });
+    }
+  });
+
+  app.get("/api/public/kid/:kidId", async (req: Request, res: Response) => {
+    try {
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const pinState = await storage.getParentPinState(kid.userId);
+      res.json({ id: kid.id, name: kid.name, avatar: kid.avatar, legacyLink: !kid.accessTokenId, pinRequired: !!pinState.pinHash });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch kid" });
+    }
+  });
+
+  // Leaving locked kid mode, switching kids or opening parent mode from a kid device
+  app.post("/api/public/kid/:kidId/verify-pin", async (req: Request, res: Response) => {
+    try {
+      const parsed = verifyParentPinSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      sendPinVerification(res, await verifyParentPin(kid.userId, parsed.data.pin));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to verify PIN" });
+    }
+  });
+
+  app.get("/api/public/kid/:kidId/videos", async (req: Request, res: Response) => {
+    try {
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const kidId = kid.id;
+      const access = await getViewingAccess(kidId, kid.userId);
+      if (!canOpenLibrary(access)) {
+        return res.status(403).json(getAccessDeniedBody(access));
+      }
+      const [allVideos, folders, viewCounts, settings] = await Promise.all([
+        storage.getVideosByOwner(kid.userId),
+        storage.getFoldersByOwner(kid.userId),
+        storage.getViewCountsForKid(kidId, kid.userId),
+        storage.getFamilySettings(kid.userId),
+      ]);
+      const assignedVideos = allVideos.filter(v => v.assigned?.[kidId]);
+      const lockStates = getVideoLockStates(assignedVideos, folders, kidId);
+      const foldersById = new Map(folders.map(f => [f.id, f]));
+      res.json(assignedVideos.map(v => {
+        const viewLimit = getEffectiveViewLimit(v, v.folderId ? foldersById.get(v.folderId) : undefined, settings.viewLimit);
+        const viewsRemaining = viewLimit === null ? null : Math.max(0, viewLimit - (viewCounts[v.id] ?? 0));
+        return { ...toKidVideo(v), ...lockStates.get(v.id), viewsRemaining };
+      }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch videos" });
+    }
+  });
+
+  app.get("/api/public/kid/:kidId/folders", async (req: Request, res: Response) => {
+    try {
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const folders = await storage.getFoldersByOwner(kid.userId);
+      res.json(folders);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch folders" });
+    }
+  });
+
+  // The same folders nested under their parents, for browsing sub-folders
+  app.get("/api/public/kid/:kidId/folders/tree", async (req: Request, res: Response) => {
+    try {
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const folders = await storage.getFoldersByOwner(kid.userId);
+      res.json(buildFolderTree(folders));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch folders" });
+    }
+  });
+
+  app.post("/api/public/kid/:kidId/videos/:videoId/watched", async (req: Request, res: Response) => {
+    try {
+      const videoId = req.params.videoId as string;
+      const { voiceRecording } = req.body;
+
+      // Whether a recording is required depends on the video's completion policy, checked in storage
+      if (!isValidVoiceRecording(voiceRecording)) {
+        return res.status(400).json({ error: "Invalid voice recording" });
+      }
+
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const kidId = kid.id;
+
+      const access = await getViewingAccess(kidId, kid.userId);
+      if (!canOpenLibrary(access)) {
+        return res.status(403).json(getAccessDeniedBody(access));
+      }
+
+      const audio = await resolveVoiceRecordingAudio(voiceRecording, kidId, kid.userId);
+      if (audio.error) {
+        return res.status(400).json({ error: audio.error });
+      }
+
+      const result = await storage.markVideoWatchedPublic(videoId, kidId, audio.recording, kid.userId, getViewOrigin(kid));
+
+      if (!result.video) {
+        return res.status(400).json({ error: result.error || "Failed to mark video as watched" });
+      }
+
+      await storage.logActivity(kid.userId, { type: "completion_submitted", actor: "kid_device", accessTokenId: kid.accessTokenId, kidId, videoId, details: getCompletionDetails(result.video, kidId, audio.recording) });
+      res.json(toKidVideo(result.video));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to mark video as watched" });
+    }
+  });
+
+  app.post("/api/public/kid/:kidId/recordings", audioUpload, async (req: Request, res: Response) => {
+    try {
+      const mimeType = getAudioMimeType(req.headers["content-type"]);
+      if (!mimeType || !Buffer.isBuffer(req.body)) {
+        return res.status(415).json({ error: "Upload the recording as an audio/* request body" });
+      }
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+
+      const result = await saveRecording(req.body, mimeType, kid.id, kid.userId);
+      if (!result.recording) {
+        return res.status(413).json({ error: result.error });
+      }
+      res.status(201).json(result.recording);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save recording" });
+    }
+  });
+
+  // A kid can play back their own recordings and the parent replies addressed to them
+  app.get("/api/public/kid/:kidId/recordings/:id", async (req: Request, res: Response) => {
+    try {
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const recording = await storage.getRecording(req.params.id as string, kid.userId);
+      if (!recording || recording.kidId !== kid.id) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      await sendRecording(req, res, recording);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to stream recording" });
+    }
+  });
+
+  app.post("/api/public/kid/:kidId/videos/:videoId/quiz", async (req: Request, res: Response) => {
+    try {
+      const videoId = req.params.videoId as string;
+      const parsed = quizSubmissionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const kidId = kid.id;
+
+      const access = await getViewingAccess(kidId, kid.userId);
+      if (!canOpenLibrary(access)) {
+        return res.status(403).json(getAccessDeniedBody(access));
+      }
+
+      const result = await storage.submitQuiz(videoId, kidId, parsed.data.answers, kid.userId, getViewOrigin(kid));
+      if (!result.video) {
+        return res.status(400).json({ error: result.error || "Failed to submit quiz" });
+      }
+      await storage.logActivity(kid.userId, { type: "completion_submitted", actor: "kid_device", accessTokenId: kid.accessTokenId, kidId, videoId, details: getQuizDetails(result.attempt) });
+
+      // Kids learn which questions they missed, not the right answers
+      res.json({ video: toKidVideo(result.video), attempt: result.attempt });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to submit quiz" });
+    }
+  });
+
+  app.post("/api/public/kid/:kidId/videos/:videoId/session", async (req: Request, res: Response) => {
+    try {
+      const videoId = req.params.videoId as string;
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const kidId = kid.id;
+      const access = await getViewingAccess(kidId, kid.userId);
+      if (!access.allowed) {
+        return res.status(403).json(getAccessDeniedBody(access));
+      }
+      const result = await storage.startWatchSession(videoId, kidId, getViewOrigin(kid), kid.userId);
+      if (!result.session) {
+        return res.status(400).json({ error: result.error || "Failed to start watch session" });
+      }
+      res.status(201).json({ session: result.session, resumePosition: result.resumePosition, access });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to start watch session" });
+    }
+  });
+
+  app.post("/api/public/kid/:kidId/videos/:videoId/heartbeat", async (req: Request, res: Response) => {
+    try {
+      const videoId = req.params.videoId as string;
+      const parsed = watchHeartbeatSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const kidId = kid.id;
+      const current = await getViewingAccess(kidId, kid.userId);
+      if (!current.allowed) {
+        return res.status(403).json(getAccessDeniedBody(current));
+      }
+      const result = await storage.recordWatchHeartbeat(videoId, kidId, capHeartbeat(parsed.data, current), current.screenTime.today, kid.userId);
+      if (!result.progress) {
+        return res.status(400).json({ error: result.error || "Failed to record heartbeat" });
+      }
+      const access = await getViewingAccess(kidId, kid.userId);
+      res.json({ progress: result.progress, access });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to record heartbeat" });
+    }
+  });
+
+  app.get("/api/public/kid/:kidId/watch-stats", async (req: Request, res: Response) => {
+    try {
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const kidId = kid.id;
+      const watchTime = await storage.getWatchTimeByDay(kidId, kid.userId);
+      res.json(buildWatchStats(watchTime, await getFamilyDayKey(kid.userId)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch watch stats" });
+    }
+  });
+
+  app.get("/api/public/kid/:kidId/screen-time", async (req: Request, res: Response) => {
+    try {
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const kidId = kid.id;
+      const status = await getScreenTimeStatus(kidId, kid.userId);
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch screen time" });
+    }
+  });
+
+  app.get("/api/public/kid/:kidId/access", async (req: Request, res: Response) => {
+    try {
+      const kid = await resolvePublicKid(req.params.kidId as string);
+      if (!kid) {
+        return res.status(404).json({ error: "Kid not found" });
+      }
+      const kidId = kid.id;
+      const access = await getViewingAccess(kidId, kid.userId);
+      res.json(access);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch access" });
+    }
+  });
+
+  // Badge count endpoints
+  app.get("/api/badge/parent", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const count = await storage.getBadgeCountForParent(userId);
+      res.json({ count });
+    } catch (error) {
       res.status(500).json({ error: "Failed to get badge count" });
     }
   });
@@ -549,15 +1745,15 @@ export async function registerRoutes(
   // Public badge endpoint for kid PWA (uses same public kid endpoint pattern)
   app.get("/api/public/kid/:kidId/badge", async (req: Request, res: Response) => {
     try {
-      const kidId = req.params.kidId as string;
-      if (!kidId || kidId.length < 10) {
+      const kidRef = req.params.kidId as string;
+      if (!kidRef || kidRef.length < 10) {
         return res.status(404).json({ count: 0 });
       }
-      const kid = await storage.getKidById(kidId);
+      const kid = await resolvePublicKid(kidRef);
       if (!kid) {
         return res.status(404).json({ count: 0 });
       }
-      const count = await storage.getBadgeCountForKid(kidId, kid.userId);
+      const count = await storage.getBadgeCountForKid(kid.id, kid.userId);
       res.json({ count });
     } catch (error) {
       res.json({ count: 0 });
@@ -638,6 +1834,7 @@ export async function registerRoutes(
       const folderExists = masterFolders.some(f => f.id === parsed.data.masterFolderId);
       if (!folderExists) return res.status(404).json({ error: "Playlist not found" });
       const sub = await storage.subscribe(userId, parsed.data.masterFolderId, parsed.data.kidIds, MASTER_USER_ID);
+      await storage.logActivity(userId, { type: "subscription_changed", actor: "parent", details: { action: "subscribed", masterFolderId: sub.masterFolderId, kidIds: sub.kidIds } });
       res.status(201).json(sub);
     } catch (error) {
       console.error("Failed to subscribe:", error);
@@ -650,7 +1847,15 @@ export async function registerRoutes(
       const userId = getUserId(req);
       const parsed = insertGlobalSubscriptionSchema.pick({ masterFolderId: true }).safeParse(req.body);
       if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
-      await storage.unsubscribe(userId, parsed.data.masterFolderId);
+      const removal = await storage.unsubscribe(userId, parsed.data.masterFolderId);
+      if (removal) {
+        const { masterFolderId } = parsed.data;
+        await deleteRecordingFiles(removal.recordingKeys);
+        for (const videoId of removal.videoIds) {
+          await storage.logActivity(userId, { type: "video_deleted", actor: "parent", videoId, details: { masterFolderId } });
+        }
+        await storage.logActivity(userId, { type: "subscription_changed", actor: "parent", details: { action: "unsubscribed", masterFolderId } });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Failed to unsubscribe:", error);
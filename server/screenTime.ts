@@ -0,0 +1,142 @@
+import type { ScreenTimeStatus, ViewingAccess, ViewingWindow } from "@shared/schema";
+import { getDayKey } from "@shared/schema";
+import { storage } from "./storage";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Offset of `timeZone` from UTC at the given instant, in milliseconds
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Converts a wall-clock time ("HH:MM") on a family calendar day to the matching UTC instant
+export function zonedTimeToUtc(dayKey: string, time: string, timeZone: string): Date {
+  const [year, month, day] = dayKey.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimeZoneOffset(new Date(guess), timeZone);
+  // Re-check once in case the guess and the result fall on different sides of a DST change
+  const corrected = getTimeZoneOffset(new Date(guess - offset), timeZone);
+  return new Date(guess - corrected);
+}
+
+export function addDays(dayKey: string, days: number): string {
+  return new Date(new Date(`${dayKey}T00:00:00Z`).getTime() + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+// 0 = Sunday ... 6 = Saturday
+export function getDayOfWeek(dayKey: string): number {
+  return new Date(`${dayKey}T00:00:00Z`).getUTCDay();
+}
+
+export function isWeekend(dayKey: string): boolean {
+  const day = getDayOfWeek(dayKey);
+  return day === 0 || day === 6;
+}
+
+// Wall-clock "HH:MM" in the family timezone
+function getTimeOfDay(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-GB", { timeZone, hourCycle: "h23", hour: "2-digit", minute: "2-digit" }).format(date);
+}
+
+function findOpenWindow(windows: ViewingWindow[], at: Date, timeZone: string): ViewingWindow | undefined {
+  const dayOfWeek = getDayOfWeek(getDayKey(at, timeZone));
+  const time = getTimeOfDay(at, timeZone);
+  return windows.find(w => w.days.includes(dayOfWeek) && w.start <= time && time < w.end);
+}
+
+// Earliest instant at or after `from` when the library is open. No windows means always open.
+export function findNextWindowOpening(windows: ViewingWindow[], from: Date, timeZone: string): Date | null {
+  if (windows.length === 0 || findOpenWindow(windows, from, timeZone)) return from;
+
+  const today = getDayKey(from, timeZone);
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = addDays(today, offset);
+    let next: Date | null = null;
+    for (const window of windows) {
+      if (!window.days.includes(getDayOfWeek(day))) continue;
+      const opensAt = zonedTimeToUtc(day, window.start, timeZone);
+      if (opensAt > from && (!next || opensAt < next)) next = opensAt;
+    }
+    if (next) return next;
+  }
+  return null;
+}
+
+export async function getFamilyDayKey(userId: string, now = new Date()): Promise<string> {
+  const { timezone } = await storage.getFamilySettings(userId);
+  return getDayKey(now, timezone);
+}
+
+export async function getScreenTimeStatus(kidId: string, userId: string, now = new Date()): Promise<ScreenTimeStatus> {
+  const { timezone } = await storage.getFamilySettings(userId);
+  const today = getDayKey(now, timezone);
+  const limit = await storage.getScreenTimeLimit(kidId, userId);
+  const limitMinutes = isWeekend(today) ? limit.weekendMinutes : limit.weekdayMinutes;
+
+  const watchTime = await storage.getWatchTimeByDay(kidId, userId);
+  const usedSeconds = watchTime[today] || 0;
+  const remainingSeconds = limitMinutes === null ? null : Math.max(0, Math.round(limitMinutes * 60 - usedSeconds));
+
+  return {
+    timezone,
+    today,
+    limitMinutes,
+    usedMinutes: Math.floor(usedSeconds / 60),
+    remainingMinutes: remainingSeconds === null ? null : Math.ceil(remainingSeconds / 60),
+    remainingSeconds,
+    limitReached: remainingSeconds === 0,
+    resetsAt: zonedTimeToUtc(addDays(today, 1), "00:00", timezone).toISOString(),
+  };
+}
+
+export async function getViewingAccess(kidId: string, userId: string, now = new Date()): Promise<ViewingAccess> {
+  const screenTime = await getScreenTimeStatus(kidId, userId, now);
+  const { timezone } = screenTime;
+  const windows = await storage.getViewingWindows(kidId, userId);
+  const overrideExpiresAt = await storage.getScreenTimeOverride(kidId, userId);
+  const overrideActive = !!overrideExpiresAt && overrideExpiresAt > now;
+
+  const openWindow = findOpenWindow(windows, now, timezone);
+  const insideWindow = windows.length === 0 || !!openWindow;
+
+  let reason: ViewingAccess["reason"];
+  if (!overrideActive) {
+    if (!insideWindow) reason = "outside_window";
+    else if (screenTime.limitReached) reason = "limit_reached";
+  }
+
+  let nextWindowOpensAt: Date | null = null;
+  if (reason) {
+    // Once today's minutes are used up, nothing opens again before the daily reset
+    const from = screenTime.limitReached ? new Date(screenTime.resetsAt) : now;
+    nextWindowOpensAt = findNextWindowOpening(windows, from, timezone);
+  }
+
+  return {
+    allowed: !reason,
+    reason,
+    insideWindow,
+    windowClosesAt: openWindow ? zonedTimeToUtc(screenTime.today, openWindow.end, timezone).toISOString() : null,
+    nextWindowOpensAt: nextWindowOpensAt?.toISOString() ?? null,
+    overrideExpiresAt: overrideActive ? overrideExpiresAt.toISOString() : null,
+    screenTime,
+  };
+}
+
+// Browsing the library and submitting completions only need an open window (or an override)
+export function canOpenLibrary(access: ViewingAccess): boolean {
+  return access.reason !== "outside_window";
+}
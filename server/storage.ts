@@ -1,8 +1,31 @@
 import { randomUUID } from "crypto";
-import { eq, and, inArray, count } from "drizzle-orm";
-import type { Kid, Video, InsertKid, VoiceRecording, VideoProgress, Folder, InsertFolder, VideoPlatform, Feedback, InsertFeedback, GlobalSubscription } from "@shared/schema";
-import { getVideoInfo, MAX_VIDEO_VIEWS, VIDEO_PRIORITY_DEFAULT, kidsTable, videosTable, foldersTable, feedbackTable, globalSubscriptionsTable } from "@shared/schema";
-import { db } from "./db";
+import { eq, and, or, inArray, count, isNull, isNotNull, lt, lte, gt, gte, asc, desc, ilike, exists, notExists, sql, type SQL } from "drizzle-orm";
+import type { Kid, Video, InsertKid, VoiceRecording, VideoProgress, Folder, InsertFolder, VideoPlatform, Feedback, InsertFeedback, GlobalSubscription, VideoAssignment, WatchSession, WatchHeartbeat, FamilySettings, UpdateFamilySettings, ScreenTimeLimit, ViewingWindow, KidAccessToken, ParentPinState, ReviewRecording, CompletionPolicy, Signoff, Quiz, QuizAttempt, UnlockMode, VideoLockState, ViewEvent, ViewSource, ViewLimitStatus, StoredRecording, Trash, AccountDeletionState, ActivityEvent, ActivityEventType, ActivityActor, ActivityPage, ActivityQuery, NewActivityEvent, KidMerge, KidMergePlan, KidMergeVideo, KidMergeSlot, KidMergeSnapshot, VideoMetadata, VideoQuery, VideoPage, VideoSort, FolderDeleteMode } from "@shared/schema";
+import { getVideoInfo, MAX_VIDEO_VIEWS, DEFAULT_COMPLETION_POLICY, WATCH_HEARTBEAT_GRACE_SECONDS, VIDEO_PRIORITY_DEFAULT, VIEW_RESUME_WINDOW_MINUTES, TRASH_RETENTION_DAYS, KID_MERGE_UNDO_HOURS, kidsTable, videosTable, foldersTable, feedbackTable, globalSubscriptionsTable, familySettingsTable, kidScreenTimeTable, kidAccessTokensTable, viewEventsTable, videoAssignmentsTable, videoProgressTable, recordingsTable, kidMergesTable, accountDeletionsTable, activityEventsTable } from "@shared/schema";
+import { db, isMemoryBackend } from "./db";
+import { getChildIds, getDescendantIds, getFolderMoveError, getMoveUpOrder } from "./folderTree";
+import { scoreQuiz } from "./quiz";
+
+// Who started a watch session, recorded on its view event
+export type ViewOrigin = { source: ViewSource; accessTokenId?: string | null };
+
+// Rows written as-is by an import; videos that already exist only gain the given kids' data
+export type FamilyData = { kids: Kid[]; folders: Folder[]; videos: Video[] };
+
+// What a purge removed, in total and per family; the caller deletes the recording files
+export type TrashPurgeCounts = { kids: number; folders: number; videos: number };
+export type TrashPurgeResult = TrashPurgeCounts & { byUser: Record<string, TrashPurgeCounts>; recordingKeys: string[] };
+
+// Every maxAttempts consecutive PIN failures lock the PIN, doubling the lockout each time
+export type PinLockoutPolicy = { maxAttempts: number; baseLockoutMs: number; maxLockoutMs: number };
+
+function getPinLockoutMs(failedAttempts: number, policy: PinLockoutPolicy): number {
+  const lockouts = Math.floor(failedAttempts / policy.maxAttempts);
+  return Math.min(policy.maxLockoutMs, policy.baseLockoutMs * 2 ** (lockouts - 1));
+}
+
+// Videos dropped with a synced playlist folder; the caller deletes the recording files
+export type SyncedFolderRemoval = { videoIds: string[]; recordingKeys: string[] };
 
 export interface IStorage {
   getKids(userId: string): Promise<Kid[]>;
@@ -10,19 +33,89 @@ export interface IStorage {
   createKid(kid: InsertKid, userId: string): Promise<Kid>;
   updateKid(id: string, userId: string, updates: Partial<InsertKid>): Promise<Kid | null>;
   deleteKid(id: string, userId: string): Promise<boolean>;
+  restoreKid(id: string, userId: string): Promise<Kid | null>;
+  mergeKids(sourceKidId: string, targetKidId: string, userId: string, dryRun: boolean): Promise<{ merge: KidMergePlan | KidMerge | null; error?: string }>;
+  getKidMerges(userId: string): Promise<KidMerge[]>;
+  undoKidMerge(id: string, userId: string): Promise<{ merge: KidMerge | null; error?: string }>;
 
   getFolders(userId: string): Promise<Folder[]>;
   getFolder(id: string, userId: string): Promise<Folder | undefined>;
   createFolder(folder: InsertFolder, userId: string): Promise<Folder>;
   updateFolder(id: string, userId: string, updates: Partial<InsertFolder>): Promise<Folder | null>;
-  deleteFolder(id: string, userId: string): Promise<boolean>;
+  deleteFolder(id: string, userId: string, children?: FolderDeleteMode): Promise<boolean>;
+  restoreFolder(id: string, userId: string): Promise<Folder | null>;
+  moveFolder(id: string, parentId: string | null, userId: string): Promise<{ folder: Folder | null; error?: string }>;
+  // Orders one parent's sub-folders, or the top-level folders with parentId null
+  reorderFolders(parentId: string | null, ids: string[], userId: string): Promise<{ folders: Folder[] | null; error?: string }>;
 
   getVideos(userId: string): Promise<Video[]>;
   getVideo(id: string, userId: string): Promise<Video | undefined>;
+  queryVideos(userId: string, query: VideoQuery): Promise<VideoPage>;
   createVideo(url: string, kidIds: string[] | undefined, allKids: Kid[], userId: string, folderId?: string | null, priority?: number): Promise<{ video: Video | null; error?: string }>;
-  updateVideo(id: string, userId: string, updates: { priority?: number; folderId?: string | null }): Promise<Video | null>;
+  updateVideo(id: string, userId: string, updates: { priority?: number; folderId?: string | null; completionPolicy?: CompletionPolicy | null; viewLimit?: number | null }): Promise<Video | null>;
   deleteVideo(id: string, userId: string): Promise<boolean>;
-  markVideoWatched(videoId: string, kidId: string, voiceRecording: VoiceRecording, userId: string): Promise<{ video: Video | null; error?: string }>;
+  restoreVideo(id: string, userId: string): Promise<{ video: Video | null; error?: string }>;
+  reorderVideos(folderId: string, ids: string[], userId: string): Promise<{ videos: Video[] | null; error?: string }>;
+  updateVideoAssignments(videoIds: string[], userId: string, changes: VideoAssignment): Promise<Video[]>;
+  markVideoWatched(videoId: string, kidId: string, voiceRecording: VoiceRecording | undefined, userId: string, origin?: ViewOrigin): Promise<{ video: Video | null; error?: string }>;
+  signoffVideo(videoId: string, kidId: string, signoff: Signoff, userId: string): Promise<{ video: Video | null; error?: string }>;
+  setVideoQuiz(videoId: string, userId: string, quiz: Quiz | null): Promise<Video | null>;
+  submitQuiz(videoId: string, kidId: string, answers: Record<string, string>, userId: string, origin?: ViewOrigin): Promise<{ video: Video | null; attempt?: QuizAttempt; error?: string }>;
+  reviewRecording(videoId: string, kidId: string, recordingId: string, review: ReviewRecording, userId: string): Promise<{ video: Video | null; error?: string }>;
+  startWatchSession(videoId: string, kidId: string, origin: ViewOrigin, userId: string): Promise<{ session: WatchSession | null; resumePosition?: number; error?: string }>;
+  recordWatchHeartbeat(videoId: string, kidId: string, heartbeat: WatchHeartbeat, dayKey: string, userId: string): Promise<{ progress: VideoProgress | null; error?: string }>;
+  getViewEvents(userId: string, filter?: { videoId?: string; kidId?: string; limit?: number }): Promise<ViewEvent[]>;
+  getViewLimitStatus(videoId: string, userId: string): Promise<ViewLimitStatus[] | null>;
+  getViewCountsForKid(kidId: string, userId: string): Promise<Record<string, number>>;
+  getWatchTimeByDay(kidId: string, userId: string): Promise<Record<string, number>>;
+
+  // Platform metadata. A null lookup only records that the video was checked.
+  setVideoMetadata(videoId: string, metadata: VideoMetadata | null, fetchedAt: Date): Promise<void>;
+  getVideosForMetadataRefresh(fetchedBefore: Date, limit: number): Promise<{ id: string; platform: VideoPlatform; ytId: string }[]>;
+
+  getFamilySettings(userId: string): Promise<FamilySettings>;
+  updateFamilySettings(userId: string, updates: UpdateFamilySettings): Promise<FamilySettings>;
+  getParentPinState(userId: string): Promise<ParentPinState>;
+  updateParentPinState(userId: string, updates: Partial<ParentPinState>): Promise<void>;
+  // Counts an attempt as failed in one step, locking the PIN when it reaches the policy's
+  // limit. Returns null without counting while the PIN is locked.
+  countParentPinAttempt(userId: string, now: Date, policy: PinLockoutPolicy): Promise<Omit<ParentPinState, "pinHash"> | null>;
+  getScreenTimeLimit(kidId: string, userId: string): Promise<ScreenTimeLimit>;
+  setScreenTimeLimit(kidId: string, userId: string, limit: ScreenTimeLimit): Promise<ScreenTimeLimit>;
+  getViewingWindows(kidId: string, userId: string): Promise<ViewingWindow[]>;
+  setViewingWindows(kidId: string, userId: string, windows: ViewingWindow[]): Promise<ViewingWindow[]>;
+  getScreenTimeOverride(kidId: string, userId: string): Promise<Date | null>;
+  setScreenTimeOverride(kidId: string, userId: string, expiresAt: Date | null): Promise<void>;
+
+  getKidAccessTokens(userId: string, kidId?: string): Promise<KidAccessToken[]>;
+  getKidAccessTokenForAuth(id: string): Promise<(KidAccessToken & { userId: string; tokenHash: string }) | undefined>;
+  createKidAccessToken(token: { id: string; kidId: string; name: string; tokenHash: string }, userId: string): Promise<KidAccessToken>;
+  renameKidAccessToken(id: string, userId: string, name: string): Promise<KidAccessToken | null>;
+  revokeKidAccessToken(id: string, userId: string): Promise<boolean>;
+  touchKidAccessToken(id: string): Promise<void>;
+
+  createRecording(recording: StoredRecording & { storageKey: string }, userId: string): Promise<StoredRecording>;
+  getRecording(id: string, userId: string): Promise<(StoredRecording & { storageKey: string }) | undefined>;
+  getRecordingUsage(userId: string): Promise<number>;
+  getRecordings(userId: string): Promise<(StoredRecording & { storageKey: string })[]>;
+  // Removes recordings uploaded before createdBefore that no progress refers to and returns
+  // their storage keys; the caller deletes the files
+  purgeUnattachedRecordings(createdBefore: Date): Promise<string[]>;
+
+  getTrash(userId: string): Promise<Trash>;
+  purgeTrash(deletedBefore: Date): Promise<TrashPurgeResult>;
+
+  importFamilyData(data: FamilyData, userId: string): Promise<void>;
+
+  getAccountDeletion(userId: string): Promise<AccountDeletionState | undefined>;
+  saveAccountDeletion(userId: string, state: AccountDeletionState): Promise<void>;
+  cancelAccountDeletion(userId: string): Promise<boolean>;
+  getDueAccountDeletions(now: Date): Promise<string[]>;
+  detachSubscribers(masterUserId: string): Promise<number>;
+  deleteAccountData(userId: string): Promise<{ recordingKeys: string[] }>;
+
+  logActivity(userId: string, event: NewActivityEvent): Promise<ActivityEvent>;
+  getActivity(userId: string, query: ActivityQuery): Promise<ActivityPage>;
 
   createFeedback(feedback: InsertFeedback, userId: string): Promise<Feedback>;
 
@@ -33,30 +126,670 @@ export interface IStorage {
   getKidById(kidId: string): Promise<(Kid & { userId: string }) | undefined>;
   getVideosByOwner(userId: string): Promise<Video[]>;
   getFoldersByOwner(userId: string): Promise<Folder[]>;
-  markVideoWatchedPublic(videoId: string, kidId: string, voiceRecording: VoiceRecording, ownerUserId: string): Promise<{ video: Video | null; error?: string }>;
+  markVideoWatchedPublic(videoId: string, kidId: string, voiceRecording: VoiceRecording | undefined, ownerUserId: string, origin: ViewOrigin): Promise<{ video: Video | null; error?: string }>;
 
   getGlobalFolders(masterUserId: string): Promise<Folder[]>;
   getGlobalFoldersWithCounts(masterUserId: string): Promise<(Folder & { videoCount: number })[]>;
   getGlobalVideos(masterUserId: string, folderId: string): Promise<Video[]>;
   getSubscriptions(userId: string): Promise<GlobalSubscription[]>;
   subscribe(userId: string, masterFolderId: string, kidIds: string[], masterUserId: string): Promise<GlobalSubscription>;
-  unsubscribe(userId: string, masterFolderId: string): Promise<boolean>;
+  unsubscribe(userId: string, masterFolderId: string): Promise<SyncedFolderRemoval | null>;
   syncSubscription(userId: string, masterFolderId: string, masterUserId: string): Promise<void>;
   syncAllSubscriptions(userId: string, masterUserId: string): Promise<void>;
-  cleanupGlobalData(userId: string): Promise<void>;
+  cleanupGlobalData(userId: string): Promise<SyncedFolderRemoval>;
+}
+
+// Applies assign/unassign changes to a video in place. Unassigned kids keep their
+// progress entry (recordings, watch time) marked as archived so reassigning restores it.
+function applyAssignmentChanges(video: Video, changes: VideoAssignment): boolean {
+  let changed = false;
+  const now = new Date().toISOString();
+
+  for (const kidId of changes.unassign) {
+    if (!video.assigned[kidId]) continue;
+    delete video.assigned[kidId];
+    if (video.progress[kidId]) {
+      video.progress[kidId] = { ...video.progress[kidId], archivedAt: now };
+    }
+    changed = true;
+  }
+
+  for (const kidId of changes.assign) {
+    if (video.assigned[kidId]) continue;
+    video.assigned[kidId] = true;
+    const { archivedAt: _archivedAt, ...restored } = video.progress[kidId] || { watched: false };
+    video.progress[kidId] = restored;
+    changed = true;
+  }
+
+  return changed;
+}
+
+// Trashing a kid unassigns them everywhere. Their progress is archived with the deletion
+// time so that restoring the kid reassigns exactly those videos.
+function archiveKidProgress(video: Video, kidId: string, deletedAt: string): boolean {
+  if (!video.assigned[kidId]) return false;
+  delete video.assigned[kidId];
+  video.progress[kidId] = { ...(video.progress[kidId] || { watched: false }), archivedAt: deletedAt };
+  return true;
+}
+
+function restoreKidProgress(video: Video, kidId: string, deletedAt: string): boolean {
+  if (video.progress[kidId]?.archivedAt !== deletedAt) return false;
+  return applyAssignmentChanges(video, { assign: [kidId], unassign: [] });
+}
+
+function toTrashDates(deletedAt: Date): { deletedAt: string; purgeAt: string } {
+  const purgeAt = new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  return { deletedAt: deletedAt.toISOString(), purgeAt: purgeAt.toISOString() };
+}
+
+// Everything in a progress entry that can reference uploaded audio: kid recordings and
+// parent voice replies
+export function getAudioHolders(progress: VideoProgress): { audioId?: string; audioData?: string }[] {
+  const holders = [
+    progress.voiceRecording,
+    progress.voiceRecording?.review?.voiceReply,
+    progress.redoRequest?.voiceReply,
+    ...(progress.voiceRecordings || []).flatMap(r => [r, r.review?.voiceReply]),
+  ];
+  return holders.filter((h): h is NonNullable<typeof h> => !!h);
+}
+
+type PurgedRows = { kids: { userId: string }[]; folders: { userId: string }[]; videos: { userId: string }[] };
+
+function getPurgeCountsByUser(purged: PurgedRows): Record<string, TrashPurgeCounts> {
+  const byUser: Record<string, TrashPurgeCounts> = {};
+  for (const kind of ["kids", "folders", "videos"] as const) {
+    for (const { userId } of purged[kind]) {
+      byUser[userId] ??= { kids: 0, folders: 0, videos: 0 };
+      byUser[userId][kind]++;
+    }
+  }
+  return byUser;
+}
+
+function getProgressAudioIds(progress: VideoProgress): string[] {
+  return getAudioHolders(progress).map(h => h.audioId).filter((id): id is string => !!id);
+}
+
+// Recordings an undoable kid merge would put back
+function getSnapshotAudioIds(snapshot: KidMergeSnapshot[]): string[] {
+  return snapshot
+    .flatMap(s => [s.source.progress, s.target.progress, s.merged.progress])
+    .flatMap(progress => progress ? getProgressAudioIds(progress) : []);
+}
+
+// Resume where the kid left off, unless they were already at the end
+function getResumePosition(progress: VideoProgress | undefined): number {
+  const position = progress?.lastPosition ?? 0;
+  const duration = progress?.videoDuration;
+  if (duration && position >= duration - WATCH_HEARTBEAT_GRACE_SECONDS) return 0;
+  return position;
+}
+
+function getHeartbeatError(session: WatchSession | undefined, heartbeat: WatchHeartbeat, now: Date): string | null {
+  if (!session || session.id !== heartbeat.sessionId) {
+    return "Watch session not found. Please start the video again.";
+  }
+  const elapsedSeconds = (now.getTime() - new Date(session.lastHeartbeatAt).getTime()) / 1000;
+  if (heartbeat.watchedSeconds > elapsedSeconds + WATCH_HEARTBEAT_GRACE_SECONDS) {
+    return "Watched time is longer than the time since the last heartbeat";
+  }
+  if (heartbeat.duration !== undefined && heartbeat.position > heartbeat.duration + WATCH_HEARTBEAT_GRACE_SECONDS) {
+    return "Position is past the end of the video";
+  }
+  return null;
+}
+
+function applyHeartbeat(progress: VideoProgress, session: WatchSession, heartbeat: WatchHeartbeat, dayKey: string, now: Date): VideoProgress {
+  const dailyWatchTime = { ...(progress.dailyWatchTime || {}) };
+  dailyWatchTime[dayKey] = (dailyWatchTime[dayKey] || 0) + heartbeat.watchedSeconds;
+  return {
+    ...progress,
+    lastPosition: heartbeat.position,
+    videoDuration: heartbeat.duration ?? progress.videoDuration,
+    dailyWatchTime,
+    watchSession: {
+      ...session,
+      lastHeartbeatAt: now.toISOString(),
+      watchedSeconds: session.watchedSeconds + heartbeat.watchedSeconds,
+    },
+  };
+}
+
+type VideoRow = typeof videosTable.$inferSelect;
+
+function toVideo(r: VideoRow, assigned: Record<string, boolean> = {}, progress: Record<string, VideoProgress> = {}): Video {
+  return {
+    id: r.id,
+    url: r.url,
+    ytId: r.ytId,
+    platform: (r.platform || "youtube") as VideoPlatform,
+    folderId: r.folderId,
+    priority: r.priority ?? VIDEO_PRIORITY_DEFAULT,
+    assigned,
+    progress,
+    totalViews: r.totalViews,
+    completionPolicy: r.completionPolicy,
+    quiz: r.quiz,
+    viewLimit: r.viewLimit,
+    position: r.position,
+    title: r.title,
+    author: r.author,
+    durationSeconds: r.durationSeconds,
+    thumbnailUrl: r.thumbnailUrl,
+  };
+}
+
+// Manual order: positioned items first, the rest in the order they were added
+export function compareByPosition(a: { id: string; position?: number | null }, b: { id: string; position?: number | null }): number {
+  return (a.position ?? Infinity) - (b.position ?? Infinity) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+const UNPOSITIONED = 2147483647; // sorts unpositioned videos last in SQL
+
+// A reorder must list every current item exactly once
+function getReorderError(ids: string[], currentIds: string[]): string | null {
+  const current = new Set(currentIds);
+  if (new Set(ids).size !== ids.length) return "The list contains duplicate IDs";
+  const unknown = ids.find(id => !current.has(id));
+  if (unknown) return `Unknown ID: ${unknown}`;
+  if (ids.length !== current.size) return "The list must include every item";
+  return null;
+}
+
+// What GET /api/videos sorts by; ties fall back to the video ID
+function getVideoSortKey(video: Video, sort: VideoSort): string | number {
+  switch (sort) {
+    case "title": return (video.title ?? "").toLowerCase();
+    case "priority": return video.priority;
+    case "duration": return video.durationSeconds ?? 0;
+    case "position": return video.position ?? UNPOSITIONED;
+    default: return video.id;
+  }
+}
+
+function getVideoMetadata(video: Video): VideoMetadata {
+  return {
+    title: video.title ?? null,
+    author: video.author ?? null,
+    durationSeconds: video.durationSeconds ?? null,
+    thumbnailUrl: video.thumbnailUrl ?? null,
+  };
+}
+
+function toProgressRow(videoId: string, kidId: string, userId: string, progress: VideoProgress): typeof videoProgressTable.$inferInsert {
+  return {
+    videoId,
+    kidId,
+    userId,
+    progress,
+    watched: !!progress.watched,
+    parentReviewed: progress.parentReviewed ?? null,
+    awaitingSignoff: !!progress.awaitingSignoff,
+    archived: !!progress.archivedAt,
+    updatedAt: new Date(),
+  };
+}
+
+function toKid(r: typeof kidsTable.$inferSelect): Kid {
+  return { id: r.id, name: r.name, avatar: r.avatar as Kid["avatar"] };
+}
+
+function toStoredRecording(r: typeof recordingsTable.$inferSelect): StoredRecording & { storageKey: string } {
+  return {
+    id: r.id,
+    kidId: r.kidId,
+    mimeType: r.mimeType,
+    sizeBytes: r.sizeBytes,
+    createdAt: r.createdAt?.toISOString(),
+    storageKey: r.storageKey,
+  };
+}
+
+function toFolder(r: typeof foldersTable.$inferSelect): Folder {
+  return { id: r.id, name: r.name, completionPolicy: r.completionPolicy, unlockMode: r.unlockMode as UnlockMode, viewLimit: r.viewLimit, youtubePlaylistId: r.youtubePlaylistId, position: r.position, parentId: r.parentId };
+}
+
+function toKidAccessToken(r: typeof kidAccessTokensTable.$inferSelect): KidAccessToken {
+  return {
+    id: r.id,
+    kidId: r.kidId,
+    name: r.name,
+    createdAt: r.createdAt?.toISOString(),
+    lastUsedAt: r.lastUsedAt?.toISOString() ?? null,
+    revokedAt: r.revokedAt?.toISOString() ?? null,
+  };
+}
+
+function isSameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// A video with a quiz but no explicit policy is completed by passing the quiz
+export function getEffectiveCompletionPolicy(video: Video, folder: Folder | undefined): CompletionPolicy {
+  return video.completionPolicy ?? folder?.completionPolicy ?? (video.quiz ? { type: "quiz" } : DEFAULT_COMPLETION_POLICY);
+}
+
+function getCompletionPolicyError(policy: CompletionPolicy, video: Video, voiceRecording: VoiceRecording | undefined): string | null {
+  // A "quiz" policy on a video without a quiz (e.g. from its folder) falls back to watch-only
+  if (policy.type === "quiz") return video.quiz ? "Answer the quiz to complete this video" : null;
+  if (policy.type !== "voice") return null;
+
+  const minSeconds = policy.minVoiceSeconds ?? 0;
+  if (!voiceRecording || voiceRecording.duration <= 0 || voiceRecording.duration < minSeconds) {
+    return minSeconds > 0
+      ? `A voice recording of at least ${minSeconds} seconds is required to complete the video`
+      : "A valid voice recording with duration > 0 is required to complete the video";
+  }
+  return null;
+}
+
+// A video stays unlocked once a kid has completed it, even after a redo request
+function hasCompleted(video: Video, kidId: string): boolean {
+  const progress = video.progress[kidId];
+  return !!progress && !progress.archivedAt && (progress.watched || !!progress.watchedAt);
+}
+
+// Priority gating within one folder: lower levels come first. Unfiled videos, and videos
+// whose folder isn't given (e.g. it is in the trash), form one strict group.
+export function getVideoLockStates(videos: Video[], folders: Folder[], kidId: string): Map<string, VideoLockState> {
+  const modes = new Map(folders.map(f => [f.id, f.unlockMode ?? "strict"]));
+  const groupOf = (video: Video) => video.folderId && modes.has(video.folderId) ? video.folderId : null;
+  // Once a parent has put a group's videos in order, strict gating follows that order
+  const ordered = new Set(videos.filter(v => v.position != null).map(groupOf));
+  const states = new Map<string, VideoLockState>();
+
+  for (const video of videos) {
+    const group = groupOf(video);
+    const mode = group ? modes.get(group)! : "strict";
+    if (mode === "off" || hasCompleted(video, kidId)) {
+      states.set(video.id, { locked: false, unlocksAfter: [] });
+      continue;
+    }
+
+    if (mode === "strict" && ordered.has(group)) {
+      const blocking = videos
+        .filter(other => groupOf(other) === group && other.assigned[kidId] && compareByPosition(other, video) < 0 && !hasCompleted(other, kidId))
+        .map(other => other.id);
+      states.set(video.id, { locked: blocking.length > 0, unlocksAfter: blocking });
+      continue;
+    }
+
+    const lowerLevels = new Map<number, Video[]>();
+    for (const other of videos) {
+      if (groupOf(other) !== group || !other.assigned[kidId] || other.priority >= video.priority) continue;
+      lowerLevels.set(other.priority, [...(lowerLevels.get(other.priority) || []), other]);
+    }
+
+    const blocking: string[] = [];
+    for (const level of Array.from(lowerLevels.values())) {
+      const pending = level.filter(v => !hasCompleted(v, kidId));
+      if (mode === "strict" || pending.length === level.length) {
+        blocking.push(...pending.map(v => v.id));
+      }
+    }
+    states.set(video.id, { locked: blocking.length > 0, unlocksAfter: blocking });
+  }
+  return states;
+}
+
+// Existing recordings (including the legacy single `voiceRecording`) plus the new one, if any
+function appendRecording(progress: VideoProgress | undefined, voiceRecording: VoiceRecording | undefined, now: Date): VoiceRecording[] {
+  const recordings = [...(progress?.voiceRecordings || [])];
+  if (progress?.voiceRecording && recordings.length === 0) {
+    recordings.push(progress.voiceRecording);
+  }
+  if (voiceRecording && voiceRecording.duration > 0) {
+    const { review: _review, ...recording } = voiceRecording;
+    recordings.push({ ...recording, id: `rec_${now.getTime()}_${randomUUID().slice(0, 8)}` });
+  }
+  return recordings;
+}
+
+// Video first, then folder, then family; 0 at any level means unlimited
+export function getEffectiveViewLimit(video: Video, folder: Folder | undefined, familyLimit: number): number | null {
+  const limit = video.viewLimit ?? folder?.viewLimit ?? familyLimit;
+  return limit === 0 ? null : limit;
+}
+
+function toActivityEvent(r: typeof activityEventsTable.$inferSelect): ActivityEvent {
+  return {
+    id: r.id,
+    type: r.type as ActivityEventType,
+    actor: r.actor as ActivityActor,
+    accessTokenId: r.accessTokenId,
+    kidId: r.kidId,
+    videoId: r.videoId,
+    details: r.details,
+    createdAt: r.createdAt.toISOString(),
+  };
+}
+
+function newActivityEvent(event: NewActivityEvent): ActivityEvent {
+  return {
+    id: `act_${Date.now()}_${randomUUID().slice(0, 8)}`,
+    type: event.type,
+    actor: event.actor,
+    accessTokenId: event.accessTokenId ?? null,
+    kidId: event.kidId ?? null,
+    videoId: event.videoId ?? null,
+    details: event.details ?? {},
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function toViewEvent(r: typeof viewEventsTable.$inferSelect): ViewEvent {
+  return {
+    id: r.id,
+    videoId: r.videoId,
+    kidId: r.kidId,
+    startedAt: r.startedAt.toISOString(),
+    endedAt: r.endedAt?.toISOString() ?? null,
+    watchedSeconds: r.watchedSeconds,
+    source: r.source as ViewSource,
+    accessTokenId: r.accessTokenId,
+    isRedo: r.isRedo,
+  };
+}
+
+// An open session with a recent heartbeat is resumed rather than counted as a new view
+function getResumableSession(progress: VideoProgress | undefined, now: Date): WatchSession | null {
+  const session = progress?.watchSession;
+  if (!session) return null;
+  const idleMs = now.getTime() - new Date(session.lastHeartbeatAt).getTime();
+  return idleMs < VIEW_RESUME_WINDOW_MINUTES * 60_000 ? session : null;
+}
+
+function applyCompletion(video: Video, kidId: string, voiceRecording: VoiceRecording | undefined, now: Date): void {
+  const progress = video.progress[kidId];
+  const { voiceRecording: _legacy, redoRequest: _redo, awaitingSignoff: _signoff, ...previous } = progress || { watched: false };
+  video.progress[kidId] = {
+    ...previous,
+    watched: true,
+    watchedAt: progress?.watchedAt || now.toISOString(),
+    voiceRecordings: appendRecording(progress, voiceRecording, now),
+    parentReviewed: false,
+  };
+}
+
+// "parent_signoff" completions wait for the parent before the video counts as watched
+function applySignoffRequest(video: Video, kidId: string, voiceRecording: VoiceRecording | undefined, now: Date): void {
+  const progress = video.progress[kidId];
+  const { voiceRecording: _legacy, ...previous } = progress || { watched: false };
+  video.progress[kidId] = {
+    ...previous,
+    voiceRecordings: appendRecording(progress, voiceRecording, now),
+    awaitingSignoff: now.toISOString(),
+  };
+}
+
+function applySignoff(video: Video, kidId: string, signoff: Signoff, now: Date): void {
+  if (signoff.approve) {
+    applyCompletion(video, kidId, undefined, now);
+    video.progress[kidId].parentReviewed = true;
+    return;
+  }
+
+  const { awaitingSignoff: _signoff, ...previous } = video.progress[kidId];
+  video.progress[kidId] = {
+    ...previous,
+    parentReviewed: true,
+    redoRequest: { requestedAt: now.toISOString(), comment: signoff.comment },
+  };
+}
+
+function getRecordingId(recording: VoiceRecording): string {
+  return recording.id ?? recording.recordedAt;
+}
+
+// Approving marks the completion as reviewed. Asking for a redo also reopens the video
+// for the kid and leaves the parent's comment on the progress entry for them to see.
+function applyRecordingReview(progress: VideoProgress, recordingId: string, review: ReviewRecording, now: Date): { progress: VideoProgress | null; error?: string } {
+  const recordings = progress.voiceRecordings?.length
+    ? [...progress.voiceRecordings]
+    : progress.voiceRecording ? [progress.voiceRecording] : [];
+  const index = recordings.findIndex(r => getRecordingId(r) === recordingId);
+  if (index === -1) return { progress: null, error: "Recording not found" };
+
+  const reviewedAt = now.toISOString();
+  const status = review.action === "approve" ? "approved" : "redo_requested";
+  recordings[index] = { ...recordings[index], review: { status, reviewedAt, comment: review.comment, voiceReply: review.voiceReply } };
+
+  const { voiceRecording: _legacy, redoRequest, ...rest } = progress;
+  const updated: VideoProgress = { ...rest, voiceRecordings: recordings, parentReviewed: true };
+
+  if (review.action === "redo") {
+    updated.watched = false;
+    updated.redoRequest = { recordingId, requestedAt: reviewedAt, comment: review.comment, voiceReply: review.voiceReply };
+  } else if (redoRequest?.recordingId === recordingId) {
+    updated.watched = true; // parent changed their mind about the redo
+  } else if (redoRequest) {
+    updated.redoRequest = redoRequest;
+  }
+
+  return { progress: updated };
+}
+
+function listRecordings(progress: VideoProgress): VoiceRecording[] {
+  return progress.voiceRecordings?.length ? progress.voiceRecordings : progress.voiceRecording ? [progress.voiceRecording] : [];
+}
+
+function earliest(a: string | undefined, b: string | undefined): string | undefined {
+  return a && b ? (a < b ? a : b) : a ?? b;
+}
+
+// Keeps recordings, quiz attempts and watch time from both kids. The video counts as
+// completed if either kid completed it.
+function combineProgress(target: VideoProgress, source: VideoProgress): VideoProgress {
+  const dailyWatchTime = { ...(target.dailyWatchTime || {}) };
+  for (const [day, seconds] of Object.entries(source.dailyWatchTime || {})) {
+    dailyWatchTime[day] = (dailyWatchTime[day] || 0) + seconds;
+  }
+
+  const { voiceRecording: _legacy, ...rest } = target;
+  const combined: VideoProgress = { ...rest, watched: target.watched || source.watched, dailyWatchTime };
+
+  const recordings = [...listRecordings(target), ...listRecordings(source)].sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  if (recordings.length > 0) combined.voiceRecordings = recordings;
+  const quizAttempts = [...(target.quizAttempts || []), ...(source.quizAttempts || [])].sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+  if (quizAttempts.length > 0) combined.quizAttempts = quizAttempts;
+
+  const watchedAt = earliest(target.watchedAt, source.watchedAt);
+  if (watchedAt) combined.watchedAt = watchedAt;
+  if (target.parentReviewed === false || source.parentReviewed === false) {
+    combined.parentReviewed = false;
+  } else if (combined.parentReviewed === undefined && source.parentReviewed !== undefined) {
+    combined.parentReviewed = source.parentReviewed;
+  }
+  // A pending redo or sign-off only carries over while the video is still open
+  if (!target.watched) {
+    combined.redoRequest = target.redoRequest ?? source.redoRequest;
+    combined.awaitingSignoff = target.awaitingSignoff ?? source.awaitingSignoff;
+  }
+  return combined;
+}
+
+function toMergeSlot(video: Video, kidId: string): KidMergeSlot {
+  return structuredClone({ assigned: !!video.assigned[kidId], progress: video.progress[kidId] ?? null });
+}
+
+function setMergeSlot(video: Video, kidId: string, slot: KidMergeSlot): void {
+  if (slot.assigned) video.assigned[kidId] = true;
+  else delete video.assigned[kidId];
+  if (slot.progress) video.progress[kidId] = structuredClone(slot.progress);
+  else delete video.progress[kidId];
+}
+
+// Folds the source kid's assignment and progress on each video into the target, in place
+function applyKidMerge<V extends Video>(videos: V[], sourceKidId: string, targetKidId: string): { plan: KidMergeVideo[]; snapshot: KidMergeSnapshot[]; changed: V[] } {
+  const plan: KidMergeVideo[] = [];
+  const snapshot: KidMergeSnapshot[] = [];
+  const changed: V[] = [];
+
+  for (const video of videos) {
+    const sourceProgress = video.progress[sourceKidId];
+    const sourceAssigned = !!video.assigned[sourceKidId];
+    if (!sourceProgress && !sourceAssigned) continue;
+
+    const source = toMergeSlot(video, sourceKidId);
+    const target = toMergeSlot(video, targetKidId);
+    const targetProgress = video.progress[targetKidId];
+
+    const assign = sourceAssigned && !video.assigned[targetKidId];
+    if (sourceAssigned) video.assigned[targetKidId] = true;
+    delete video.assigned[sourceKidId];
+
+    if (sourceProgress) {
+      const merged = targetProgress ? combineProgress(targetProgress, sourceProgress) : sourceProgress;
+      if (video.assigned[targetKidId]) delete merged.archivedAt;
+      video.progress[targetKidId] = merged;
+      delete video.progress[sourceKidId];
+    }
+
+    plan.push({
+      videoId: video.id,
+      assign,
+      progress: sourceProgress ? (targetProgress ? "combine" : "move") : null,
+      recordingIds: sourceProgress ? listRecordings(sourceProgress).map(getRecordingId) : [],
+    });
+    snapshot.push({ videoId: video.id, source, target, merged: toMergeSlot(video, targetKidId) });
+    changed.push(video);
+  }
+  return { plan, snapshot, changed };
+}
+
+// A merge can be undone within the window, while the source kid is still in the trash and
+// the target hasn't made progress on the merged videos since
+function getMergeUndoError(merge: KidMerge, snapshot: KidMergeSnapshot[], videos: Video[], now: Date): string | null {
+  if (merge.undoneAt) return "This merge has already been undone";
+  if (now.getTime() > new Date(merge.undoUntil).getTime()) return "This merge can no longer be undone";
+  const byId = new Map(videos.map(v => [v.id, v]));
+  for (const entry of snapshot) {
+    const video = byId.get(entry.videoId);
+    if (video && !isSameJson(toMergeSlot(video, merge.targetKidId), entry.merged)) {
+      return "Some of the merged videos have changed since the merge, so it can no longer be undone";
+    }
+  }
+  return null;
+}
+
+function undoKidMerge<V extends Video>(videos: V[], merge: KidMerge, snapshot: KidMergeSnapshot[]): V[] {
+  const byId = new Map(videos.map(v => [v.id, v]));
+  const changed: V[] = [];
+  for (const entry of snapshot) {
+    const video = byId.get(entry.videoId);
+    if (!video) continue;
+    setMergeSlot(video, merge.sourceKidId, entry.source);
+    setMergeSlot(video, merge.targetKidId, entry.target);
+    changed.push(video);
+  }
+  return changed;
+}
+
+function toKidMerge(r: typeof kidMergesTable.$inferSelect): KidMerge {
+  return {
+    id: r.id,
+    sourceKidId: r.sourceKidId,
+    targetKidId: r.targetKidId,
+    videos: r.videos,
+    audioIds: r.audioIds,
+    createdAt: r.createdAt.toISOString(),
+    undoUntil: new Date(r.createdAt.getTime() + KID_MERGE_UNDO_HOURS * 60 * 60 * 1000).toISOString(),
+    undoneAt: r.undoneAt?.toISOString() ?? null,
+  };
 }
 
 export class DatabaseStorage implements IStorage {
+  // Attaches each video's assignment and progress rows as the `assigned`/`progress` maps
+  private async withKidData(rows: VideoRow[]): Promise<Video[]> {
+    if (rows.length === 0) return [];
+    const ids = rows.map(r => r.id);
+    const [assignmentRows, progressRows] = await Promise.all([
+      db.select().from(videoAssignmentsTable).where(inArray(videoAssignmentsTable.videoId, ids)),
+      db.select().from(videoProgressTable).where(inArray(videoProgressTable.videoId, ids)),
+    ]);
+
+    const assigned = new Map<string, Record<string, boolean>>();
+    for (const a of assignmentRows) {
+      assigned.set(a.videoId, { ...assigned.get(a.videoId), [a.kidId]: true });
+    }
+    const progress = new Map<string, Record<string, VideoProgress>>();
+    for (const p of progressRows) {
+      progress.set(p.videoId, { ...progress.get(p.videoId), [p.kidId]: p.progress });
+    }
+    return rows.map(r => toVideo(r, assigned.get(r.id), progress.get(r.id)));
+  }
+
+  private async saveProgress(videoId: string, kidId: string, userId: string, progress: VideoProgress): Promise<void> {
+    const row = toProgressRow(videoId, kidId, userId, progress);
+    await db.insert(videoProgressTable)
+      .values(row)
+      .onConflictDoUpdate({ target: [videoProgressTable.videoId, videoProgressTable.kidId], set: row });
+  }
+
+  // Rewrites the assignment and progress rows of the given kids to match `video`
+  private async saveKidData(video: Video, kidIds: string[], userId: string): Promise<void> {
+    for (const kidId of kidIds) {
+      const rowKey = and(eq(videoAssignmentsTable.videoId, video.id), eq(videoAssignmentsTable.kidId, kidId));
+      if (video.assigned[kidId]) {
+        await db.insert(videoAssignmentsTable).values({ videoId: video.id, kidId, userId }).onConflictDoNothing();
+      } else {
+        await db.delete(videoAssignmentsTable).where(rowKey);
+      }
+
+      const progress = video.progress[kidId];
+      if (progress) {
+        await this.saveProgress(video.id, kidId, userId, progress);
+      } else {
+        await db.delete(videoProgressTable).where(and(eq(videoProgressTable.videoId, video.id), eq(videoProgressTable.kidId, kidId)));
+      }
+    }
+  }
+
+  private async insertKidData(video: Pick<Video, "id" | "assigned" | "progress">, userId: string): Promise<void> {
+    const assignments = Object.keys(video.assigned).filter(kidId => video.assigned[kidId]);
+    if (assignments.length > 0) {
+      await db.insert(videoAssignmentsTable).values(assignments.map(kidId => ({ videoId: video.id, kidId, userId })));
+    }
+    const progress = Object.entries(video.progress);
+    if (progress.length > 0) {
+      await db.insert(videoProgressTable).values(progress.map(([kidId, p]) => toProgressRow(video.id, kidId, userId, p)));
+    }
+  }
+
+  private async deleteKidData(videoIds: string[]): Promise<void> {
+    if (videoIds.length === 0) return;
+    await db.delete(videoAssignmentsTable).where(inArray(videoAssignmentsTable.videoId, videoIds));
+    await db.delete(videoProgressTable).where(inArray(videoProgressTable.videoId, videoIds));
+  }
+
+  // Trashed videos are left out, and videos in a trashed folder show as unfiled until
+  // the folder is restored or purged
+  private async selectVideos(where: SQL | undefined): Promise<Video[]> {
+    const rows = await db.select({ video: videosTable, folderDeletedAt: foldersTable.deletedAt })
+      .from(videosTable)
+      .leftJoin(foldersTable, eq(foldersTable.id, videosTable.folderId))
+      .where(and(where, isNull(videosTable.deletedAt)))
+      .orderBy(sql`${videosTable.position} asc nulls last`, asc(videosTable.id));
+    return this.withKidData(rows.map(r => r.folderDeletedAt ? { ...r.video, folderId: null } : r.video));
+  }
+
+  // Includes trashed videos, whose assignments must follow a kid into and out of the trash
+  private async getAllVideos(userId: string): Promise<Video[]> {
+    return this.withKidData(await db.select().from(videosTable).where(eq(videosTable.userId, userId)));
+  }
+
   async getKids(userId: string): Promise<Kid[]> {
-    const rows = await db.select().from(kidsTable).where(eq(kidsTable.userId, userId));
-    return rows.map(r => ({ id: r.id, name: r.name, avatar: r.avatar as Kid["avatar"] }));
+    const rows = await db.select().from(kidsTable).where(and(eq(kidsTable.userId, userId), isNull(kidsTable.deletedAt)));
+    return rows.map(toKid);
   }
 
   async getKid(id: string, userId: string): Promise<Kid | undefined> {
-    const rows = await db.select().from(kidsTable).where(and(eq(kidsTable.id, id), eq(kidsTable.userId, userId)));
+    const rows = await db.select().from(kidsTable).where(and(eq(kidsTable.id, id), eq(kidsTable.userId, userId), isNull(kidsTable.deletedAt)));
     if (rows.length === 0) return undefined;
-    const r = rows[0];
-    return { id: r.id, name: r.name, avatar: r.avatar as Kid["avatar"] };
+    return toKid(rows[0]);
   }
 
   async createKid(insertKid: InsertKid, userId: string): Promise<Kid> {
@@ -64,13 +797,10 @@ export class DatabaseStorage implements IStorage {
     const kid: Kid = { ...insertKid, id };
     await db.insert(kidsTable).values({ ...kid, userId });
 
-    const allVideos = await this.getVideos(userId);
-    for (const video of allVideos) {
-      video.assigned[id] = true;
-      video.progress[id] = { watched: false };
-      await db.update(videosTable)
-        .set({ assigned: video.assigned, progress: video.progress })
-        .where(eq(videosTable.id, video.id));
+    const videoIds = await db.select({ id: videosTable.id }).from(videosTable).where(eq(videosTable.userId, userId));
+    if (videoIds.length > 0) {
+      await db.insert(videoAssignmentsTable).values(videoIds.map(v => ({ videoId: v.id, kidId: id, userId })));
+      await db.insert(videoProgressTable).values(videoIds.map(v => toProgressRow(v.id, id, userId, { watched: false })));
     }
 
     return kid;
@@ -85,19 +815,136 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteKid(id: string, userId: string): Promise<boolean> {
-    await db.delete(kidsTable).where(and(eq(kidsTable.id, id), eq(kidsTable.userId, userId)));
+    const deletedAt = new Date();
+    const trashed = await db.update(kidsTable)
+      .set({ deletedAt })
+      .where(and(eq(kidsTable.id, id), eq(kidsTable.userId, userId), isNull(kidsTable.deletedAt)))
+      .returning({ id: kidsTable.id });
+    if (trashed.length === 0) return false;
+
+    // archiveKidProgress as three statements: every assigned video gets a progress row,
+    // those rows are stamped with the deletion time, then the assignments are dropped
+    const archivedAt = deletedAt.toISOString();
+    const assigned = and(eq(videoAssignmentsTable.kidId, id), eq(videoAssignmentsTable.userId, userId));
+    await db.insert(videoProgressTable).select(qb => qb.select({
+      videoId: videoAssignmentsTable.videoId,
+      kidId: videoAssignmentsTable.kidId,
+      userId: videoAssignmentsTable.userId,
+      progress: sql`'{"watched":false}'::jsonb`.as("progress"),
+      watched: sql`false`.as("watched"),
+      parentReviewed: sql`null`.as("parentReviewed"),
+      awaitingSignoff: sql`false`.as("awaitingSignoff"),
+      archived: sql`false`.as("archived"),
+      updatedAt: sql`now()`.as("updatedAt"),
+    }).from(videoAssignmentsTable).where(assigned)).onConflictDoNothing();
+    await db.update(videoProgressTable)
+      .set({
+        progress: sql`jsonb_set(${videoProgressTable.progress}, '{archivedAt}', to_jsonb(${archivedAt}::text))`,
+        archived: true,
+        updatedAt: deletedAt,
+      })
+      .where(and(
+        eq(videoProgressTable.kidId, id),
+        eq(videoProgressTable.userId, userId),
+        inArray(videoProgressTable.videoId, db.select({ videoId: videoAssignmentsTable.videoId }).from(videoAssignmentsTable).where(assigned))
+      ));
+    await db.delete(videoAssignmentsTable).where(assigned);
     return true;
   }
 
+  async restoreKid(id: string, userId: string): Promise<Kid | null> {
+    const rows = await db.select().from(kidsTable).where(and(eq(kidsTable.id, id), eq(kidsTable.userId, userId), isNotNull(kidsTable.deletedAt)));
+    if (rows.length === 0) return null;
+    await db.update(kidsTable).set({ deletedAt: null }).where(eq(kidsTable.id, id));
+
+    // restoreKidProgress as two statements: only videos archived by this deletion are reassigned
+    const deletedAt = rows[0].deletedAt!.toISOString();
+    const archived = and(
+      eq(videoProgressTable.kidId, id),
+      eq(videoProgressTable.userId, userId),
+      sql`${videoProgressTable.progress}->>'archivedAt' = ${deletedAt}`
+    );
+    await db.insert(videoAssignmentsTable).select(qb => qb.select({
+      videoId: videoProgressTable.videoId,
+      kidId: videoProgressTable.kidId,
+      userId: videoProgressTable.userId,
+    }).from(videoProgressTable).where(archived)).onConflictDoNothing();
+    await db.update(videoProgressTable)
+      .set({ progress: sql`${videoProgressTable.progress} - 'archivedAt'`, archived: false, updatedAt: new Date() })
+      .where(archived);
+    return toKid(rows[0]);
+  }
+
+  async mergeKids(sourceKidId: string, targetKidId: string, userId: string, dryRun: boolean): Promise<{ merge: KidMergePlan | KidMerge | null; error?: string }> {
+    const [source, target] = await Promise.all([this.getKid(sourceKidId, userId), this.getKid(targetKidId, userId)]);
+    if (!source || !target) return { merge: null, error: "Kid not found" };
+
+    const { plan, snapshot, changed } = applyKidMerge(await this.getAllVideos(userId), sourceKidId, targetKidId);
+    const audioRows = await db.select({ id: recordingsTable.id }).from(recordingsTable)
+      .where(and(eq(recordingsTable.userId, userId), eq(recordingsTable.kidId, sourceKidId)));
+    const audioIds = audioRows.map(r => r.id);
+    if (dryRun) return { merge: { sourceKidId, targetKidId, videos: plan, audioIds } };
+
+    for (const video of changed) {
+      await this.saveKidData(video, [sourceKidId, targetKidId], userId);
+    }
+    if (audioIds.length > 0) {
+      await db.update(recordingsTable).set({ kidId: targetKidId }).where(inArray(recordingsTable.id, audioIds));
+    }
+    await this.deleteKid(sourceKidId, userId);
+
+    const [row] = await db.insert(kidMergesTable).values({
+      id: `merge_${Date.now()}_${randomUUID().slice(0, 8)}`,
+      userId,
+      sourceKidId,
+      targetKidId,
+      videos: plan,
+      audioIds,
+      snapshot,
+    }).returning();
+    return { merge: toKidMerge(row) };
+  }
+
+  async getKidMerges(userId: string): Promise<KidMerge[]> {
+    const rows = await db.select().from(kidMergesTable).where(eq(kidMergesTable.userId, userId)).orderBy(desc(kidMergesTable.createdAt));
+    return rows.map(toKidMerge);
+  }
+
+  async undoKidMerge(id: string, userId: string): Promise<{ merge: KidMerge | null; error?: string }> {
+    const rows = await db.select().from(kidMergesTable).where(and(eq(kidMergesTable.id, id), eq(kidMergesTable.userId, userId)));
+    if (rows.length === 0) return { merge: null, error: "Merge not found" };
+    const merge = toKidMerge(rows[0]);
+    const snapshot = rows[0].snapshot;
+
+    const now = new Date();
+    const videos = await this.getAllVideos(userId);
+    const undoError = getMergeUndoError(merge, snapshot, videos, now);
+    if (undoError) return { merge: null, error: undoError };
+    if (!(await this.restoreKid(merge.sourceKidId, userId))) {
+      return { merge: null, error: "The merged kid is no longer in the trash" };
+    }
+
+    for (const video of undoKidMerge(videos, merge, snapshot)) {
+      await this.saveKidData(video, [merge.sourceKidId, merge.targetKidId], userId);
+    }
+    if (merge.audioIds.length > 0) {
+      await db.update(recordingsTable).set({ kidId: merge.sourceKidId }).where(inArray(recordingsTable.id, merge.audioIds));
+    }
+    await db.update(kidMergesTable).set({ undoneAt: now }).where(eq(kidMergesTable.id, id));
+    return { merge: { ...merge, undoneAt: now.toISOString() } };
+  }
+
   async getFolders(userId: string): Promise<Folder[]> {
-    const rows = await db.select().from(foldersTable).where(eq(foldersTable.userId, userId));
-    return rows.map(r => ({ id: r.id, name: r.name }));
+    const rows = await db.select().from(foldersTable)
+      .where(and(eq(foldersTable.userId, userId), isNull(foldersTable.deletedAt)))
+      .orderBy(sql`${foldersTable.position} asc nulls last`, asc(foldersTable.id));
+    return rows.map(toFolder);
   }
 
   async getFolder(id: string, userId: string): Promise<Folder | undefined> {
-    const rows = await db.select().from(foldersTable).where(and(eq(foldersTable.id, id), eq(foldersTable.userId, userId)));
+    const rows = await db.select().from(foldersTable).where(and(eq(foldersTable.id, id), eq(foldersTable.userId, userId), isNull(foldersTable.deletedAt)));
     if (rows.length === 0) return undefined;
-    return { id: rows[0].id, name: rows[0].name };
+    return toFolder(rows[0]);
   }
 
   async createFolder(insertFolder: InsertFolder, userId: string): Promise<Folder> {
@@ -111,48 +958,145 @@ export class DatabaseStorage implements IStorage {
     const existing = await this.getFolder(id, userId);
     if (!existing) return null;
     const updated = { ...existing, ...updates };
-    await db.update(foldersTable).set({ name: updated.name }).where(and(eq(foldersTable.id, id), eq(foldersTable.userId, userId)));
+    await db.update(foldersTable).set({ name: updated.name, completionPolicy: updated.completionPolicy ?? null, unlockMode: updated.unlockMode ?? "strict", viewLimit: updated.viewLimit ?? null, youtubePlaylistId: updated.youtubePlaylistId ?? null }).where(and(eq(foldersTable.id, id), eq(foldersTable.userId, userId)));
     return updated;
   }
 
-  async deleteFolder(id: string, userId: string): Promise<boolean> {
-    await db.update(videosTable)
-      .set({ folderId: null })
-      .where(and(eq(videosTable.folderId, id), eq(videosTable.userId, userId)));
-    await db.delete(foldersTable).where(and(eq(foldersTable.id, id), eq(foldersTable.userId, userId)));
-    return true;
+  // Videos keep their folderId while the folder is in the trash, so restoring it refiles them.
+  // Sub-folders trashed along with it share its deletedAt.
+  async deleteFolder(id: string, userId: string, children: FolderDeleteMode = "trash"): Promise<boolean> {
+    const folders = await this.getFolders(userId);
+    const folder = folders.find(f => f.id === id);
+    if (!folder) return false;
+
+    const ids = children === "move_up" ? [id] : [id, ...getDescendantIds(id, folders)];
+    const trashed = await db.transaction(async (tx) => {
+      if (children === "move_up") {
+        await tx.update(foldersTable)
+          .set({ parentId: folder.parentId ?? null })
+          .where(and(eq(foldersTable.userId, userId), eq(foldersTable.parentId, id), isNull(foldersTable.deletedAt)));
+        const order = getMoveUpOrder(id, folders);
+        for (let i = 0; i < order.length; i++) {
+          await tx.update(foldersTable).set({ position: i }).where(and(eq(foldersTable.id, order[i]), eq(foldersTable.userId, userId)));
+        }
+      }
+      return tx.update(foldersTable)
+        .set({ deletedAt: new Date() })
+        .where(and(inArray(foldersTable.id, ids), eq(foldersTable.userId, userId), isNull(foldersTable.deletedAt)))
+        .returning({ id: foldersTable.id });
+    });
+    return trashed.length > 0;
+  }
+
+  async restoreFolder(id: string, userId: string): Promise<Folder | null> {
+    const trashed = await db.select().from(foldersTable).where(and(eq(foldersTable.userId, userId), isNotNull(foldersTable.deletedAt)));
+    const row = trashed.find(r => r.id === id);
+    if (!row) return null;
+
+    const deletedAt = row.deletedAt!.getTime();
+    const ids = [id, ...getDescendantIds(id, trashed.filter(r => r.deletedAt!.getTime() === deletedAt))];
+    await db.update(foldersTable).set({ deletedAt: null }).where(and(inArray(foldersTable.id, ids), eq(foldersTable.userId, userId)));
+    // A folder restored without its parent goes to the top level
+    if (row.parentId && !(await this.getFolder(row.parentId, userId))) {
+      await db.update(foldersTable).set({ parentId: null }).where(eq(foldersTable.id, id));
+      row.parentId = null;
+    }
+    return toFolder(row);
+  }
+
+  async moveFolder(id: string, parentId: string | null, userId: string): Promise<{ folder: Folder | null; error?: string }> {
+    const folders = await this.getFolders(userId);
+    const folder = folders.find(f => f.id === id);
+    if (!folder) return { folder: null, error: "Folder not found" };
+    const error = getFolderMoveError(id, parentId, folders);
+    if (error) return { folder: null, error };
+    if ((folder.parentId ?? null) === parentId) return { folder };
+
+    // A moved folder goes to the end of its new siblings
+    await db.update(foldersTable).set({ parentId, position: null }).where(and(eq(foldersTable.id, id), eq(foldersTable.userId, userId)));
+    return { folder: { ...folder, parentId, position: null } };
+  }
+
+  async reorderFolders(parentId: string | null, ids: string[], userId: string): Promise<{ folders: Folder[] | null; error?: string }> {
+    const folders = await this.getFolders(userId);
+    if (parentId && !folders.some(f => f.id === parentId)) return { folders: null, error: "Folder not found" };
+    const error = getReorderError(ids, getChildIds(parentId, folders));
+    if (error) return { folders: null, error };
+    for (let i = 0; i < ids.length; i++) {
+      await db.update(foldersTable).set({ position: i }).where(and(eq(foldersTable.id, ids[i]), eq(foldersTable.userId, userId)));
+    }
+    return { folders: await this.getFolders(userId) };
   }
 
   async getVideos(userId: string): Promise<Video[]> {
-    const rows = await db.select().from(videosTable).where(eq(videosTable.userId, userId));
-    return rows.map(r => ({
-      id: r.id,
-      url: r.url,
-      ytId: r.ytId,
-      platform: (r.platform || "youtube") as VideoPlatform,
-      folderId: r.folderId,
-      priority: r.priority ?? VIDEO_PRIORITY_DEFAULT,
-      assigned: r.assigned,
-      progress: r.progress,
-      totalViews: r.totalViews,
-    }));
+    return this.selectVideos(eq(videosTable.userId, userId));
+  }
+
+  async queryVideos(userId: string, query: VideoQuery): Promise<VideoPage> {
+    const conditions: SQL[] = [eq(videosTable.userId, userId), isNull(videosTable.deletedAt)];
+    if (query.q) {
+      const pattern = `%${query.q.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(ilike(videosTable.title, pattern), ilike(videosTable.url, pattern))!);
+    }
+    // Videos in a trashed folder count as unfiled
+    if (query.folderId === "none") {
+      conditions.push(or(isNull(videosTable.folderId), isNotNull(foldersTable.deletedAt))!);
+    } else if (query.folderId) {
+      conditions.push(eq(videosTable.folderId, query.folderId), isNull(foldersTable.deletedAt));
+    }
+    if (query.platform) conditions.push(eq(videosTable.platform, query.platform));
+    if (query.minPriority !== undefined) conditions.push(gte(videosTable.priority, query.minPriority));
+    if (query.maxPriority !== undefined) conditions.push(lte(videosTable.priority, query.maxPriority));
+
+    if (query.kidId) {
+      const assigned = exists(db.select({ videoId: videoAssignmentsTable.videoId }).from(videoAssignmentsTable)
+        .where(and(eq(videoAssignmentsTable.videoId, videosTable.id), eq(videoAssignmentsTable.kidId, query.kidId))));
+      const progress = (condition: SQL | undefined) => db.select({ videoId: videoProgressTable.videoId }).from(videoProgressTable)
+        .where(and(eq(videoProgressTable.videoId, videosTable.id), eq(videoProgressTable.kidId, query.kidId!), eq(videoProgressTable.archived, false), condition));
+      if (query.status === "watched") {
+        conditions.push(exists(progress(eq(videoProgressTable.watched, true))));
+      } else if (query.status === "awaiting_review") {
+        conditions.push(exists(progress(or(
+          and(eq(videoProgressTable.watched, true), eq(videoProgressTable.parentReviewed, false)),
+          eq(videoProgressTable.awaitingSignoff, true),
+        ))));
+      } else if (query.status === "unwatched") {
+        conditions.push(assigned, notExists(progress(eq(videoProgressTable.watched, true))));
+      } else {
+        conditions.push(assigned);
+      }
+    }
+
+    const sortKey: SQL = {
+      added: sql`${videosTable.id}`,
+      title: sql`lower(coalesce(${videosTable.title}, ''))`,
+      priority: sql`${videosTable.priority}`,
+      duration: sql`coalesce(${videosTable.durationSeconds}, 0)`,
+      position: sql`coalesce(${videosTable.position}, ${sql.raw(String(UNPOSITIONED))})`,
+    }[query.sort];
+    const after = query.order === "asc" ? gt : lt;
+    if (query.cursor) {
+      // Trashed videos still work as a cursor
+      const [cursor] = await db.select({ key: sortKey }).from(videosTable)
+        .where(and(eq(videosTable.id, query.cursor), eq(videosTable.userId, userId)));
+      if (!cursor) return { videos: [], nextCursor: null };
+      conditions.push(or(after(sortKey, cursor.key), and(eq(sortKey, cursor.key), after(videosTable.id, query.cursor)))!);
+    }
+
+    const direction = query.order === "asc" ? asc : desc;
+    const rows = await db.select({ video: videosTable, folderDeletedAt: foldersTable.deletedAt })
+      .from(videosTable)
+      .leftJoin(foldersTable, eq(foldersTable.id, videosTable.folderId))
+      .where(and(...conditions))
+      .orderBy(direction(sortKey), direction(videosTable.id))
+      .limit(query.limit + 1);
+    const videos = await this.withKidData(rows.slice(0, query.limit).map(r => r.folderDeletedAt ? { ...r.video, folderId: null } : r.video));
+    return { videos, nextCursor: rows.length > query.limit ? videos[videos.length - 1].id : null };
   }
 
   async getVideo(id: string, userId: string): Promise<Video | undefined> {
-    const rows = await db.select().from(videosTable).where(and(eq(videosTable.id, id), eq(videosTable.userId, userId)));
-    if (rows.length === 0) return undefined;
-    const r = rows[0];
-    return {
-      id: r.id,
-      url: r.url,
-      ytId: r.ytId,
-      platform: (r.platform || "youtube") as VideoPlatform,
-      folderId: r.folderId,
-      priority: r.priority ?? VIDEO_PRIORITY_DEFAULT,
-      assigned: r.assigned,
-      progress: r.progress,
-      totalViews: r.totalViews,
-    };
+    const [video] = await this.selectVideos(and(eq(videosTable.id, id), eq(videosTable.userId, userId)));
+    return video;
   }
 
   async createVideo(url: string, kidIds: string[] | undefined, allKids: Kid[], userId: string, folderId?: string | null, priority?: number): Promise<{ video: Video | null; error?: string }> {
@@ -161,7 +1105,7 @@ export class DatabaseStorage implements IStorage {
 
     const { platform, videoId } = videoInfo;
 
-    const existing = await db.select().from(videosTable).where(and(eq(videosTable.ytId, videoId), eq(videosTable.userId, userId)));
+    const existing = await db.select().from(videosTable).where(and(eq(videosTable.ytId, videoId), eq(videosTable.userId, userId), isNull(videosTable.deletedAt)));
     if (existing.length > 0) return { video: null, error: "This video has already been added to your library." };
 
     const id = `vid_${Date.now()}_${randomUUID().slice(0, 8)}`;
@@ -179,17 +1123,22 @@ export class DatabaseStorage implements IStorage {
 
     const videoPriority = priority ?? VIDEO_PRIORITY_DEFAULT;
     const video: Video = { id, url, ytId: videoId, platform, folderId: folderId || null, priority: videoPriority, assigned, progress, totalViews: 0 };
-    await db.insert(videosTable).values({ ...video, userId, folderId: folderId || null, priority: videoPriority });
+    await db.insert(videosTable).values({ id, url, ytId: videoId, platform, userId, folderId: folderId || null, priority: videoPriority });
+    await this.insertKidData(video, userId);
     return { video };
   }
 
-  async updateVideo(id: string, userId: string, updates: { priority?: number; folderId?: string | null }): Promise<Video | null> {
+  async updateVideo(id: string, userId: string, updates: { priority?: number; folderId?: string | null; completionPolicy?: CompletionPolicy | null; viewLimit?: number | null }): Promise<Video | null> {
     const video = await this.getVideo(id, userId);
     if (!video) return null;
     
-    const updateData: Partial<{ priority: number; folderId: string | null }> = {};
+    const updateData: Partial<{ priority: number; folderId: string | null; completionPolicy: CompletionPolicy | null; viewLimit: number | null; position: number | null }> = {};
     if (updates.priority !== undefined) updateData.priority = updates.priority;
     if (updates.folderId !== undefined) updateData.folderId = updates.folderId;
+    // A moved video goes to the end of its new folder
+    if (updates.folderId !== undefined && updates.folderId !== video.folderId) updateData.position = null;
+    if (updates.completionPolicy !== undefined) updateData.completionPolicy = updates.completionPolicy;
+    if (updates.viewLimit !== undefined) updateData.viewLimit = updates.viewLimit;
     
     if (Object.keys(updateData).length > 0) {
       await db.update(videosTable).set(updateData).where(and(eq(videosTable.id, id), eq(videosTable.userId, userId)));
@@ -198,107 +1147,742 @@ export class DatabaseStorage implements IStorage {
     return this.getVideo(id, userId) as Promise<Video>;
   }
 
+  // Assignments, progress and recordings stay in place until the video is purged
   async deleteVideo(id: string, userId: string): Promise<boolean> {
-    await db.delete(videosTable).where(and(eq(videosTable.id, id), eq(videosTable.userId, userId)));
-    return true;
+    const trashed = await db.update(videosTable)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(videosTable.id, id), eq(videosTable.userId, userId), isNull(videosTable.deletedAt)))
+      .returning({ id: videosTable.id });
+    return trashed.length > 0;
   }
 
-  async markVideoWatched(videoId: string, kidId: string, voiceRecording: VoiceRecording, userId: string): Promise<{ video: Video | null; error?: string }> {
-    const video = await this.getVideo(videoId, userId);
-    if (!video) return { video: null, error: "Video not found" };
+  async restoreVideo(id: string, userId: string): Promise<{ video: Video | null; error?: string }> {
+    const rows = await db.select().from(videosTable).where(and(eq(videosTable.id, id), eq(videosTable.userId, userId), isNotNull(videosTable.deletedAt)));
+    if (rows.length === 0) return { video: null, error: "Video not found in trash" };
+
+    const duplicate = await db.select({ id: videosTable.id }).from(videosTable).where(and(eq(videosTable.ytId, rows[0].ytId), eq(videosTable.userId, userId), isNull(videosTable.deletedAt)));
+    if (duplicate.length > 0) return { video: null, error: "This video has been added to your library again since it was deleted." };
 
-    const alreadyWatched = video.progress[kidId]?.watched;
+    await db.update(videosTable).set({ deletedAt: null }).where(eq(videosTable.id, id));
+    return { video: (await this.getVideo(id, userId)) ?? null };
+  }
 
-    if (!alreadyWatched && video.totalViews >= MAX_VIDEO_VIEWS) {
-      return { video: null, error: "This video has reached the maximum number of views (4)" };
+  async reorderVideos(folderId: string, ids: string[], userId: string): Promise<{ videos: Video[] | null; error?: string }> {
+    if (!(await this.getFolder(folderId, userId))) return { videos: null, error: "Folder not found" };
+    const error = getReorderError(ids, (await this.selectVideos(and(eq(videosTable.userId, userId), eq(videosTable.folderId, folderId)))).map(v => v.id));
+    if (error) return { videos: null, error };
+    for (let i = 0; i < ids.length; i++) {
+      await db.update(videosTable).set({ position: i }).where(and(eq(videosTable.id, ids[i]), eq(videosTable.userId, userId)));
     }
+    return { videos: await this.selectVideos(and(eq(videosTable.userId, userId), eq(videosTable.folderId, folderId))) };
+  }
 
-    const existingRecordings = video.progress[kidId]?.voiceRecordings || [];
-    const legacySingle = video.progress[kidId]?.voiceRecording;
-    if (legacySingle && existingRecordings.length === 0) {
-      existingRecordings.push(legacySingle);
+  async updateVideoAssignments(videoIds: string[], userId: string, changes: VideoAssignment): Promise<Video[]> {
+    const videos = (await this.getVideos(userId)).filter(v => videoIds.includes(v.id));
+    const updated: Video[] = [];
+    for (const video of videos) {
+      if (applyAssignmentChanges(video, changes)) {
+        await this.saveKidData(video, [...changes.assign, ...changes.unassign], userId);
+      }
+      updated.push(video);
     }
-    
-    existingRecordings.push(voiceRecording);
+    return updated;
+  }
 
-    video.progress[kidId] = {
-      watched: true,
-      watchedAt: video.progress[kidId]?.watchedAt || new Date().toISOString(),
-      voiceRecordings: existingRecordings,
-      parentReviewed: false,
-    };
-    
-    if (!alreadyWatched) {
-      video.totalViews = (video.totalViews || 0) + 1;
+  async markVideoWatched(videoId: string, kidId: string, voiceRecording: VoiceRecording | undefined, userId: string, origin: ViewOrigin = { source: "parent" }): Promise<{ video: Video | null; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { video: null, error: "Video not found" };
+
+    const folder = video.folderId ? await this.getFolder(video.folderId, userId) : undefined;
+    const lockError = await this.getUnlockError(video, folder, kidId, userId);
+    if (lockError) return { video: null, error: lockError };
+
+    const policy = getEffectiveCompletionPolicy(video, folder);
+    const policyError = getCompletionPolicyError(policy, video, voiceRecording);
+    if (policyError) return { video: null, error: policyError };
+
+    const now = new Date();
+    const viewError = await this.countCompletionView(video, folder, kidId, origin, userId, now);
+    if (viewError) return { video: null, error: viewError };
+    if (policy.type === "parent_signoff") {
+      applySignoffRequest(video, kidId, voiceRecording, now);
+    } else {
+      applyCompletion(video, kidId, voiceRecording, now);
     }
 
-    await db.update(videosTable)
-      .set({ progress: video.progress, totalViews: video.totalViews })
-      .where(and(eq(videosTable.id, videoId), eq(videosTable.userId, userId)));
+    await this.saveProgress(videoId, kidId, userId, video.progress[kidId]);
 
     return { video };
   }
 
-  async getKidById(kidId: string): Promise<(Kid & { userId: string }) | undefined> {
-    const rows = await db.select().from(kidsTable).where(eq(kidsTable.id, kidId));
-    if (rows.length === 0) return undefined;
-    const r = rows[0];
-    return { id: r.id, name: r.name, avatar: r.avatar as Kid["avatar"], userId: r.userId };
+  private async getUnlockError(video: Video, folder: Folder | undefined, kidId: string, userId: string): Promise<string | null> {
+    if (folder?.unlockMode === "off") return null;
+    const folderId = folder?.id ?? null;
+    const siblings = (await this.getVideos(userId)).filter(v => (v.folderId ?? null) === folderId);
+    const state = getVideoLockStates(siblings, folder ? [folder] : [], kidId).get(video.id);
+    return state?.locked ? "Finish the earlier videos in this playlist first" : null;
   }
 
-  async getVideosByOwner(userId: string): Promise<Video[]> {
-    return this.getVideos(userId);
-  }
+  async signoffVideo(videoId: string, kidId: string, signoff: Signoff, userId: string): Promise<{ video: Video | null; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { video: null, error: "Video not found" };
+    if (!video.progress[kidId]?.awaitingSignoff) return { video: null, error: "This video is not waiting for sign-off" };
 
-  async getFoldersByOwner(userId: string): Promise<Folder[]> {
-    return this.getFolders(userId);
-  }
+    applySignoff(video, kidId, signoff, new Date());
+
+    await this.saveProgress(videoId, kidId, userId, video.progress[kidId]);
 
-  async markVideoWatchedPublic(videoId: string, kidId: string, voiceRecording: VoiceRecording, ownerUserId: string): Promise<{ video: Video | null; error?: string }> {
-    return this.markVideoWatched(videoId, kidId, voiceRecording, ownerUserId);
+    return { video };
   }
 
-  async getBadgeCountForKid(kidId: string, userId: string): Promise<number> {
-    const videos = await this.getVideos(userId);
-    let count = 0;
-    for (const video of videos) {
-      if (video.assigned?.[kidId] && !video.progress?.[kidId]?.watched) {
-        count++;
-      }
-    }
-    return count;
+  async setVideoQuiz(videoId: string, userId: string, quiz: Quiz | null): Promise<Video | null> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return null;
+    await db.update(videosTable).set({ quiz }).where(and(eq(videosTable.id, videoId), eq(videosTable.userId, userId)));
+    return { ...video, quiz };
   }
 
-  async getBadgeCountForParent(userId: string): Promise<number> {
-    const videos = await this.getVideos(userId);
-    let count = 0;
-    for (const video of videos) {
-      for (const kidId of Object.keys(video.progress || {})) {
-        const prog = video.progress[kidId];
-        if (prog?.watched && prog?.parentReviewed === false) {
-          count++;
-        }
-      }
+  async submitQuiz(videoId: string, kidId: string, answers: Record<string, string>, userId: string, origin: ViewOrigin = { source: "parent" }): Promise<{ video: Video | null; attempt?: QuizAttempt; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { video: null, error: "Video not found" };
+    if (!video.quiz) return { video: null, error: "This video has no quiz" };
+    if (!video.assigned[kidId]) return { video: null, error: "This video is not assigned to this kid" };
+
+    const folder = video.folderId ? await this.getFolder(video.folderId, userId) : undefined;
+    const lockError = await this.getUnlockError(video, folder, kidId, userId);
+    if (lockError) return { video: null, error: lockError };
+
+    const now = new Date();
+    const policy = getEffectiveCompletionPolicy(video, folder);
+    // Under a quiz policy the quiz is the completion, so it is held to the view limit. Only
+    // a passing attempt uses up the view; failed ones can be retried for free.
+    const view = policy.type === "quiz" ? await this.checkCompletionView(video, folder, kidId, userId, now) : { isRedo: null };
+    if (view.error) return { video: null, error: view.error };
+    const attempt = scoreQuiz(video.quiz, answers, now);
+
+    if (attempt.passed && policy.type === "quiz") {
+      if (view.isRedo !== null) await this.insertViewEvent(`view_${now.getTime()}_${randomUUID().slice(0, 8)}`, video.id, kidId, origin, view.isRedo, now, userId);
+      applyCompletion(video, kidId, undefined, now);
     }
-    return count;
+    const progress = video.progress[kidId] || { watched: false };
+    video.progress[kidId] = { ...progress, quizAttempts: [...(progress.quizAttempts || []), attempt] };
+
+    await this.saveProgress(videoId, kidId, userId, video.progress[kidId]);
+
+    return { video, attempt };
+  }
+
+  async reviewRecording(videoId: string, kidId: string, recordingId: string, review: ReviewRecording, userId: string): Promise<{ video: Video | null; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { video: null, error: "Video not found" };
+
+    const progress = video.progress[kidId];
+    if (!progress) return { video: null, error: "This kid has no progress on this video" };
+
+    const result = applyRecordingReview(progress, recordingId, review, new Date());
+    if (!result.progress) return { video: null, error: result.error };
+    video.progress[kidId] = result.progress;
+
+    await this.saveProgress(videoId, kidId, userId, video.progress[kidId]);
+
+    return { video };
+  }
+
+  async startWatchSession(videoId: string, kidId: string, origin: ViewOrigin, userId: string): Promise<{ session: WatchSession | null; resumePosition?: number; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { session: null, error: "Video not found" };
+    if (!video.assigned[kidId]) return { session: null, error: "This video is not assigned to this kid" };
+
+    const now = new Date();
+    const progress = video.progress[kidId] || { watched: false };
+    const resumable = getResumableSession(progress, now);
+    if (resumable) return { session: resumable, resumePosition: getResumePosition(progress) };
+
+    const folder = video.folderId ? await this.getFolder(video.folderId, userId) : undefined;
+    const { isRedo, error } = await this.checkNewView(video, folder, kidId, userId);
+    if (error) return { session: null, error };
+
+    const session: WatchSession = {
+      id: `ws_${now.getTime()}_${randomUUID().slice(0, 8)}`,
+      startedAt: now.toISOString(),
+      lastHeartbeatAt: now.toISOString(),
+      watchedSeconds: 0,
+    };
+    video.progress[kidId] = { ...progress, watchSession: session };
+
+    await this.insertViewEvent(session.id, videoId, kidId, origin, isRedo, now, userId);
+    await this.saveProgress(videoId, kidId, userId, video.progress[kidId]);
+
+    return { session, resumePosition: getResumePosition(progress) };
+  }
+
+  // A redo requested by a parent grants one view that doesn't count; otherwise the
+  // video's view limit applies
+  private async checkNewView(video: Video, folder: Folder | undefined, kidId: string, userId: string): Promise<{ isRedo: boolean; error?: string }> {
+    const redo = video.progress[kidId]?.redoRequest;
+    if (redo) {
+      const [row] = await db.select({ views: count() }).from(viewEventsTable).where(and(
+        eq(viewEventsTable.userId, userId),
+        eq(viewEventsTable.videoId, video.id),
+        eq(viewEventsTable.kidId, kidId),
+        eq(viewEventsTable.isRedo, true),
+        gte(viewEventsTable.startedAt, new Date(redo.requestedAt)),
+      ));
+      if ((row?.views ?? 0) === 0) return { isRedo: true };
+    }
+
+    const { viewLimit } = await this.getFamilySettings(userId);
+    const limit = getEffectiveViewLimit(video, folder, viewLimit);
+    if (limit !== null && await this.countViews(video.id, kidId, userId) >= limit) {
+      return { isRedo: false, error: `This video has reached the maximum number of views (${limit})` };
+    }
+    return { isRedo: false };
+  }
+
+  // A completion outside a watch session counts as a view of its own, so clients that
+  // never start sessions are held to the limit too
+  private async countCompletionView(video: Video, folder: Folder | undefined, kidId: string, origin: ViewOrigin, userId: string, now: Date): Promise<string | null> {
+    const { isRedo, error } = await this.checkCompletionView(video, folder, kidId, userId, now);
+    if (error) return error;
+    if (isRedo !== null) await this.insertViewEvent(`view_${now.getTime()}_${randomUUID().slice(0, 8)}`, video.id, kidId, origin, isRedo, now, userId);
+    return null;
+  }
+
+  // isRedo is null when an open watch session already counted the view
+  private async checkCompletionView(video: Video, folder: Folder | undefined, kidId: string, userId: string, now: Date): Promise<{ isRedo: boolean | null; error?: string }> {
+    if (getResumableSession(video.progress[kidId], now)) return { isRedo: null };
+    return this.checkNewView(video, folder, kidId, userId);
+  }
+
+  private async insertViewEvent(id: string, videoId: string, kidId: string, origin: ViewOrigin, isRedo: boolean, startedAt: Date, userId: string): Promise<void> {
+    await db.insert(viewEventsTable).values({
+      id,
+      userId,
+      videoId,
+      kidId,
+      startedAt,
+      source: origin.source,
+      accessTokenId: origin.accessTokenId ?? null,
+      isRedo,
+    });
+  }
+
+  async recordWatchHeartbeat(videoId: string, kidId: string, heartbeat: WatchHeartbeat, dayKey: string, userId: string): Promise<{ progress: VideoProgress | null; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { progress: null, error: "Video not found" };
+    if (!video.assigned[kidId]) return { progress: null, error: "This video is not assigned to this kid" };
+
+    const progress = video.progress[kidId];
+    const now = new Date();
+    const heartbeatError = getHeartbeatError(progress?.watchSession, heartbeat, now);
+    if (heartbeatError) return { progress: null, error: heartbeatError };
+
+    video.progress[kidId] = applyHeartbeat(progress, progress.watchSession!, heartbeat, dayKey, now);
+    const session = video.progress[kidId].watchSession!;
+
+    await this.saveProgress(videoId, kidId, userId, video.progress[kidId]);
+    await db.update(viewEventsTable)
+      .set({ endedAt: now, watchedSeconds: Math.round(session.watchedSeconds) })
+      .where(and(eq(viewEventsTable.id, session.id), eq(viewEventsTable.userId, userId)));
+
+    return { progress: video.progress[kidId] };
+  }
+
+  private async countViews(videoId: string, kidId: string, userId: string): Promise<number> {
+    const [row] = await db.select({ views: count() }).from(viewEventsTable).where(and(
+      eq(viewEventsTable.userId, userId),
+      eq(viewEventsTable.videoId, videoId),
+      eq(viewEventsTable.kidId, kidId),
+      eq(viewEventsTable.isRedo, false),
+    ));
+    return row?.views ?? 0;
+  }
+
+  async getViewEvents(userId: string, filter: { videoId?: string; kidId?: string; limit?: number } = {}): Promise<ViewEvent[]> {
+    const conditions = [eq(viewEventsTable.userId, userId)];
+    if (filter.videoId) conditions.push(eq(viewEventsTable.videoId, filter.videoId));
+    if (filter.kidId) conditions.push(eq(viewEventsTable.kidId, filter.kidId));
+    const rows = await db.select().from(viewEventsTable)
+      .where(and(...conditions))
+      .orderBy(desc(viewEventsTable.startedAt))
+      .limit(filter.limit ?? 100);
+    return rows.map(toViewEvent);
+  }
+
+  async getViewLimitStatus(videoId: string, userId: string): Promise<ViewLimitStatus[] | null> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return null;
+    const folder = video.folderId ? await this.getFolder(video.folderId, userId) : undefined;
+    const { viewLimit } = await this.getFamilySettings(userId);
+    const limit = getEffectiveViewLimit(video, folder, viewLimit);
+
+    const rows = await db.select({ kidId: viewEventsTable.kidId, views: count() }).from(viewEventsTable)
+      .where(and(eq(viewEventsTable.userId, userId), eq(viewEventsTable.videoId, videoId), eq(viewEventsTable.isRedo, false)))
+      .groupBy(viewEventsTable.kidId);
+    const views = new Map(rows.map(r => [r.kidId, r.views]));
+
+    return Object.keys(video.assigned).filter(kidId => video.assigned[kidId]).map(kidId => {
+      const used = views.get(kidId) ?? 0;
+      return { kidId, views: used, limit, remaining: limit === null ? null : Math.max(0, limit - used) };
+    });
+  }
+
+  async getViewCountsForKid(kidId: string, userId: string): Promise<Record<string, number>> {
+    const rows = await db.select({ videoId: viewEventsTable.videoId, views: count() }).from(viewEventsTable)
+      .where(and(eq(viewEventsTable.userId, userId), eq(viewEventsTable.kidId, kidId), eq(viewEventsTable.isRedo, false)))
+      .groupBy(viewEventsTable.videoId);
+    return Object.fromEntries(rows.map(r => [r.videoId, r.views]));
+  }
+
+  async getWatchTimeByDay(kidId: string, userId: string): Promise<Record<string, number>> {
+    const result = await db.execute<{ day: string; seconds: string }>(sql`
+      select daily.key as day, sum(daily.value::numeric) as seconds
+      from ${videoProgressTable}, jsonb_each_text(coalesce(${videoProgressTable.progress}->'dailyWatchTime', '{}'::jsonb)) as daily
+      where ${videoProgressTable.userId} = ${userId} and ${videoProgressTable.kidId} = ${kidId}
+      group by daily.key
+    `);
+    return Object.fromEntries(result.rows.map(r => [r.day, Number(r.seconds)]));
+  }
+
+  async setVideoMetadata(videoId: string, metadata: VideoMetadata | null, fetchedAt: Date): Promise<void> {
+    await db.update(videosTable).set({ ...metadata, metadataFetchedAt: fetchedAt }).where(eq(videosTable.id, videoId));
+  }
+
+  async getVideosForMetadataRefresh(fetchedBefore: Date, limit: number): Promise<{ id: string; platform: VideoPlatform; ytId: string }[]> {
+    const rows = await db.select({ id: videosTable.id, platform: videosTable.platform, ytId: videosTable.ytId })
+      .from(videosTable)
+      .where(and(isNull(videosTable.deletedAt), or(isNull(videosTable.metadataFetchedAt), lt(videosTable.metadataFetchedAt, fetchedBefore))))
+      .orderBy(sql`${videosTable.metadataFetchedAt} asc nulls first`)
+      .limit(limit);
+    return rows.map(r => ({ ...r, platform: (r.platform || "youtube") as VideoPlatform }));
+  }
+
+  async getKidById(kidId: string): Promise<(Kid & { userId: string }) | undefined> {
+    const rows = await db.select().from(kidsTable).where(and(eq(kidsTable.id, kidId), isNull(kidsTable.deletedAt)));
+    if (rows.length === 0) return undefined;
+    return { ...toKid(rows[0]), userId: rows[0].userId };
+  }
+
+  async getVideosByOwner(userId: string): Promise<Video[]> {
+    return this.getVideos(userId);
+  }
+
+  async getFoldersByOwner(userId: string): Promise<Folder[]> {
+    return this.getFolders(userId);
+  }
+
+  async markVideoWatchedPublic(videoId: string, kidId: string, voiceRecording: VoiceRecording | undefined, ownerUserId: string, origin: ViewOrigin): Promise<{ video: Video | null; error?: string }> {
+    return this.markVideoWatched(videoId, kidId, voiceRecording, ownerUserId, origin);
+  }
+
+  async getBadgeCountForKid(kidId: string, userId: string): Promise<number> {
+    const [row] = await db.select({ unwatched: count() })
+      .from(videoAssignmentsTable)
+      .innerJoin(videosTable, eq(videosTable.id, videoAssignmentsTable.videoId))
+      .leftJoin(videoProgressTable, and(
+        eq(videoProgressTable.videoId, videoAssignmentsTable.videoId),
+        eq(videoProgressTable.kidId, videoAssignmentsTable.kidId),
+      ))
+      .where(and(
+        eq(videoAssignmentsTable.userId, userId),
+        eq(videoAssignmentsTable.kidId, kidId),
+        isNull(videosTable.deletedAt),
+        sql`coalesce(${videoProgressTable.watched}, false) = false`,
+      ));
+    return row?.unwatched ?? 0;
+  }
+
+  async getBadgeCountForParent(userId: string): Promise<number> {
+    const [row] = await db.select({ pending: count() })
+      .from(videoProgressTable)
+      .innerJoin(videosTable, eq(videosTable.id, videoProgressTable.videoId))
+      .where(and(
+        eq(videoProgressTable.userId, userId),
+        eq(videoProgressTable.archived, false),
+        isNull(videosTable.deletedAt),
+        or(
+          and(eq(videoProgressTable.watched, true), eq(videoProgressTable.parentReviewed, false)),
+          eq(videoProgressTable.awaitingSignoff, true),
+        ),
+      ));
+    return row?.pending ?? 0;
   }
 
   async clearParentBadge(userId: string): Promise<void> {
-    const videos = await this.getVideos(userId);
-    for (const video of videos) {
-      let changed = false;
-      for (const kidId of Object.keys(video.progress || {})) {
-        if (video.progress[kidId]?.watched && video.progress[kidId]?.parentReviewed === false) {
-          video.progress[kidId].parentReviewed = true;
-          changed = true;
-        }
-      }
-      if (changed) {
-        await db.update(videosTable)
-          .set({ progress: video.progress })
-          .where(and(eq(videosTable.id, video.id), eq(videosTable.userId, userId)));
-      }
+    await db.update(videoProgressTable)
+      .set({
+        parentReviewed: true,
+        progress: sql`jsonb_set(${videoProgressTable.progress}, '{parentReviewed}', 'true'::jsonb)`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(videoProgressTable.userId, userId),
+        eq(videoProgressTable.watched, true),
+        eq(videoProgressTable.parentReviewed, false),
+      ));
+  }
+
+  async getFamilySettings(userId: string): Promise<FamilySettings> {
+    const rows = await db.select().from(familySettingsTable).where(eq(familySettingsTable.userId, userId));
+    if (rows.length === 0) return { timezone: "UTC", allowLegacyKidLinks: false, viewLimit: MAX_VIDEO_VIEWS };
+    return { timezone: rows[0].timezone, allowLegacyKidLinks: rows[0].allowLegacyKidLinks, viewLimit: rows[0].viewLimit };
+  }
+
+  async updateFamilySettings(userId: string, updates: UpdateFamilySettings): Promise<FamilySettings> {
+    const updated = { ...(await this.getFamilySettings(userId)), ...updates };
+    await db.insert(familySettingsTable)
+      .values({ userId, ...updated, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: familySettingsTable.userId,
+        set: { ...updated, updatedAt: new Date() },
+      });
+    return updated;
+  }
+
+  async getParentPinState(userId: string): Promise<ParentPinState> {
+    const rows = await db.select().from(familySettingsTable).where(eq(familySettingsTable.userId, userId));
+    if (rows.length === 0) return { pinHash: null, failedAttempts: 0, lockedUntil: null };
+    return { pinHash: rows[0].pinHash, failedAttempts: rows[0].pinFailedAttempts, lockedUntil: rows[0].pinLockedUntil };
+  }
+
+  async updateParentPinState(userId: string, updates: Partial<ParentPinState>): Promise<void> {
+    const set: Partial<typeof familySettingsTable.$inferInsert> = { updatedAt: new Date() };
+    if (updates.pinHash !== undefined) set.pinHash = updates.pinHash;
+    if (updates.failedAttempts !== undefined) set.pinFailedAttempts = updates.failedAttempts;
+    if (updates.lockedUntil !== undefined) set.pinLockedUntil = updates.lockedUntil;
+    await db.insert(familySettingsTable)
+      .values({ userId, ...set })
+      .onConflictDoUpdate({ target: familySettingsTable.userId, set });
+  }
+
+  async countParentPinAttempt(userId: string, now: Date, policy: PinLockoutPolicy): Promise<Omit<ParentPinState, "pinHash"> | null> {
+    // Mirrors getPinLockoutMs. Column references in SET read the row as it was before the update.
+    const failedAttempts = sql`(${familySettingsTable.pinFailedAttempts} + 1)`;
+    const lockoutMs = sql`least(${policy.maxLockoutMs}::bigint, ${policy.baseLockoutMs}::bigint * power(2, ${failedAttempts} / ${policy.maxAttempts}::integer - 1))`;
+    const rows = await db.update(familySettingsTable)
+      .set({
+        pinFailedAttempts: failedAttempts,
+        pinLockedUntil: sql`case when ${failedAttempts} % ${policy.maxAttempts}::integer = 0
+          then ${now.toISOString()}::timestamp + ${lockoutMs} * interval '1 millisecond' end`,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(familySettingsTable.userId, userId),
+        or(isNull(familySettingsTable.pinLockedUntil), lte(familySettingsTable.pinLockedUntil, now))
+      ))
+      .returning({ failedAttempts: familySettingsTable.pinFailedAttempts, lockedUntil: familySettingsTable.pinLockedUntil });
+    return rows[0] ?? null;
+  }
+
+  async getScreenTimeLimit(kidId: string, userId: string): Promise<ScreenTimeLimit> {
+    const rows = await db.select().from(kidScreenTimeTable).where(and(eq(kidScreenTimeTable.kidId, kidId), eq(kidScreenTimeTable.userId, userId)));
+    if (rows.length === 0) return { weekdayMinutes: null, weekendMinutes: null };
+    return { weekdayMinutes: rows[0].weekdayMinutes, weekendMinutes: rows[0].weekendMinutes };
+  }
+
+  async setScreenTimeLimit(kidId: string, userId: string, limit: ScreenTimeLimit): Promise<ScreenTimeLimit> {
+    await db.insert(kidScreenTimeTable)
+      .values({ kidId, userId, ...limit })
+      .onConflictDoUpdate({
+        target: kidScreenTimeTable.kidId,
+        set: limit,
+      });
+    return limit;
+  }
+
+  async getViewingWindows(kidId: string, userId: string): Promise<ViewingWindow[]> {
+    const rows = await db.select().from(kidScreenTimeTable).where(and(eq(kidScreenTimeTable.kidId, kidId), eq(kidScreenTimeTable.userId, userId)));
+    if (rows.length === 0) return [];
+    return rows[0].viewingWindows;
+  }
+
+  async setViewingWindows(kidId: string, userId: string, windows: ViewingWindow[]): Promise<ViewingWindow[]> {
+    await db.insert(kidScreenTimeTable)
+      .values({ kidId, userId, viewingWindows: windows })
+      .onConflictDoUpdate({
+        target: kidScreenTimeTable.kidId,
+        set: { viewingWindows: windows },
+      });
+    return windows;
+  }
+
+  async getScreenTimeOverride(kidId: string, userId: string): Promise<Date | null> {
+    const rows = await db.select().from(kidScreenTimeTable).where(and(eq(kidScreenTimeTable.kidId, kidId), eq(kidScreenTimeTable.userId, userId)));
+    if (rows.length === 0) return null;
+    return rows[0].overrideExpiresAt;
+  }
+
+  async setScreenTimeOverride(kidId: string, userId: string, expiresAt: Date | null): Promise<void> {
+    await db.insert(kidScreenTimeTable)
+      .values({ kidId, userId, overrideExpiresAt: expiresAt })
+      .onConflictDoUpdate({
+        target: kidScreenTimeTable.kidId,
+        set: { overrideExpiresAt: expiresAt },
+      });
+  }
+
+  async getKidAccessTokens(userId: string, kidId?: string): Promise<KidAccessToken[]> {
+    const rows = await db.select().from(kidAccessTokensTable).where(
+      kidId
+        ? and(eq(kidAccessTokensTable.userId, userId), eq(kidAccessTokensTable.kidId, kidId))
+        : eq(kidAccessTokensTable.userId, userId)
+    );
+    return rows.map(toKidAccessToken);
+  }
+
+  async getKidAccessTokenForAuth(id: string): Promise<(KidAccessToken & { userId: string; tokenHash: string }) | undefined> {
+    const rows = await db.select().from(kidAccessTokensTable).where(eq(kidAccessTokensTable.id, id));
+    if (rows.length === 0) return undefined;
+    return { ...toKidAccessToken(rows[0]), userId: rows[0].userId, tokenHash: rows[0].tokenHash };
+  }
+
+  async createKidAccessToken(token: { id: string; kidId: string; name: string; tokenHash: string }, userId: string): Promise<KidAccessToken> {
+    const createdAt = new Date();
+    await db.insert(kidAccessTokensTable).values({ ...token, userId, createdAt });
+    return { id: token.id, kidId: token.kidId, name: token.name, createdAt: createdAt.toISOString(), lastUsedAt: null, revokedAt: null };
+  }
+
+  async renameKidAccessToken(id: string, userId: string, name: string): Promise<KidAccessToken | null> {
+    const rows = await db.update(kidAccessTokensTable)
+      .set({ name })
+      .where(and(eq(kidAccessTokensTable.id, id), eq(kidAccessTokensTable.userId, userId)))
+      .returning();
+    if (rows.length === 0) return null;
+    return toKidAccessToken(rows[0]);
+  }
+
+  async revokeKidAccessToken(id: string, userId: string): Promise<boolean> {
+    const rows = await db.update(kidAccessTokensTable)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(kidAccessTokensTable.id, id), eq(kidAccessTokensTable.userId, userId), isNull(kidAccessTokensTable.revokedAt)))
+      .returning();
+    return rows.length > 0;
+  }
+
+  async touchKidAccessToken(id: string): Promise<void> {
+    await db.update(kidAccessTokensTable).set({ lastUsedAt: new Date() }).where(eq(kidAccessTokensTable.id, id));
+  }
+
+  async createRecording(recording: StoredRecording & { storageKey: string }, userId: string): Promise<StoredRecording> {
+    const createdAt = new Date();
+    await db.insert(recordingsTable).values({ ...recording, userId, createdAt });
+    const { storageKey: _key, ...stored } = recording;
+    return { ...stored, createdAt: createdAt.toISOString() };
+  }
+
+  async getRecording(id: string, userId: string): Promise<(StoredRecording & { storageKey: string }) | undefined> {
+    const rows = await db.select().from(recordingsTable).where(and(eq(recordingsTable.id, id), eq(recordingsTable.userId, userId)));
+    if (rows.length === 0) return undefined;
+    return toStoredRecording(rows[0]);
+  }
+
+  async getRecordingUsage(userId: string): Promise<number> {
+    const [row] = await db.select({ bytes: sql<string>`coalesce(sum(${recordingsTable.sizeBytes}), 0)` })
+      .from(recordingsTable)
+      .where(eq(recordingsTable.userId, userId));
+    return Number(row?.bytes ?? 0);
+  }
+
+  async getRecordings(userId: string): Promise<(StoredRecording & { storageKey: string })[]> {
+    const rows = await db.select().from(recordingsTable).where(eq(recordingsTable.userId, userId));
+    return rows.map(toStoredRecording);
+  }
+  async purgeUnattachedRecordings(createdBefore: Date): Promise<string[]> {
+    const candidates = await db.select({ id: recordingsTable.id, userId: recordingsTable.userId })
+      .from(recordingsTable)
+      .where(lt(recordingsTable.createdAt, createdBefore));
+    if (candidates.length === 0) return [];
+
+    const userIds = Array.from(new Set(candidates.map(r => r.userId)));
+    const [progressRows, mergeRows] = await Promise.all([
+      db.select({ progress: videoProgressTable.progress }).from(videoProgressTable).where(inArray(videoProgressTable.userId, userIds)),
+      db.select({ snapshot: kidMergesTable.snapshot }).from(kidMergesTable).where(inArray(kidMergesTable.userId, userIds)),
+    ]);
+    const attached = new Set([
+      ...progressRows.flatMap(r => getProgressAudioIds(r.progress)),
+      ...mergeRows.flatMap(r => getSnapshotAudioIds(r.snapshot)),
+    ]);
+    const unattached = candidates.filter(r => !attached.has(r.id)).map(r => r.id);
+    if (unattached.length === 0) return [];
+    const rows = await db.delete(recordingsTable).where(inArray(recordingsTable.id, unattached)).returning({ storageKey: recordingsTable.storageKey });
+    return rows.map(r => r.storageKey);
+  }
+
+
+  async getTrash(userId: string): Promise<Trash> {
+    const [kidRows, folderRows, videoRows] = await Promise.all([
+      db.select().from(kidsTable).where(and(eq(kidsTable.userId, userId), isNotNull(kidsTable.deletedAt))).orderBy(desc(kidsTable.deletedAt)),
+      db.select().from(foldersTable).where(and(eq(foldersTable.userId, userId), isNotNull(foldersTable.deletedAt))).orderBy(desc(foldersTable.deletedAt)),
+      db.select().from(videosTable).where(and(eq(videosTable.userId, userId), isNotNull(videosTable.deletedAt))).orderBy(desc(videosTable.deletedAt)),
+    ]);
+    const videos = await this.withKidData(videoRows);
+    return {
+      kids: kidRows.map(r => ({ ...toKid(r), ...toTrashDates(r.deletedAt!) })),
+      folders: folderRows.map(r => ({ ...toFolder(r), ...toTrashDates(r.deletedAt!) })),
+      videos: videos.map((v, i) => ({ ...v, ...toTrashDates(videoRows[i].deletedAt!) })),
+    };
+  }
+
+  async purgeTrash(deletedBefore: Date): Promise<TrashPurgeResult> {
+    const videos = await db.delete(videosTable).where(lt(videosTable.deletedAt, deletedBefore)).returning({ id: videosTable.id, userId: videosTable.userId });
+    const videoIds = videos.map(v => v.id);
+    let audioIds: string[] = [];
+    if (videoIds.length > 0) {
+      const progressRows = await db.select({ progress: videoProgressTable.progress }).from(videoProgressTable).where(inArray(videoProgressTable.videoId, videoIds));
+      audioIds = progressRows.flatMap(r => getProgressAudioIds(r.progress));
+      await this.deleteKidData(videoIds);
+      await db.delete(viewEventsTable).where(inArray(viewEventsTable.videoId, videoIds));
+    }
+
+    const folders = await db.delete(foldersTable).where(lt(foldersTable.deletedAt, deletedBefore)).returning({ id: foldersTable.id, userId: foldersTable.userId });
+    if (folders.length > 0) {
+      await db.update(videosTable).set({ folderId: null }).where(inArray(videosTable.folderId, folders.map(f => f.id)));
+      await db.update(foldersTable).set({ parentId: null }).where(inArray(foldersTable.parentId, folders.map(f => f.id)));
+    }
+
+    const kids = await db.delete(kidsTable).where(lt(kidsTable.deletedAt, deletedBefore)).returning({ id: kidsTable.id, userId: kidsTable.userId });
+    const kidIds = kids.map(k => k.id);
+    if (kidIds.length > 0) {
+      await db.delete(videoAssignmentsTable).where(inArray(videoAssignmentsTable.kidId, kidIds));
+      await db.delete(videoProgressTable).where(inArray(videoProgressTable.kidId, kidIds));
+      await db.delete(viewEventsTable).where(inArray(viewEventsTable.kidId, kidIds));
+      await db.delete(kidScreenTimeTable).where(inArray(kidScreenTimeTable.kidId, kidIds));
+      await db.delete(kidAccessTokensTable).where(inArray(kidAccessTokensTable.kidId, kidIds));
+    }
+
+    const recordingConditions: SQL[] = [];
+    if (audioIds.length > 0) recordingConditions.push(inArray(recordingsTable.id, audioIds));
+    if (kidIds.length > 0) recordingConditions.push(inArray(recordingsTable.kidId, kidIds));
+    const recordings = recordingConditions.length > 0
+      ? await db.delete(recordingsTable).where(or(...recordingConditions)).returning({ storageKey: recordingsTable.storageKey })
+      : [];
+
+    return {
+      kids: kidIds.length,
+      folders: folders.length,
+      videos: videoIds.length,
+      byUser: getPurgeCountsByUser({ kids, folders, videos }),
+      recordingKeys: recordings.map(r => r.storageKey),
+    };
+  }
+
+  async importFamilyData(data: FamilyData, userId: string): Promise<void> {
+    if (data.kids.length > 0) {
+      await db.insert(kidsTable).values(data.kids.map(k => ({ ...k, userId })));
+    }
+    if (data.folders.length > 0) {
+      await db.insert(foldersTable).values(data.folders.map(f => ({ ...f, userId })));
+    }
+    for (const video of data.videos) {
+      await db.insert(videosTable).values({
+        id: video.id,
+        userId,
+        url: video.url,
+        ytId: video.ytId,
+        platform: video.platform,
+        folderId: video.folderId ?? null,
+        priority: video.priority,
+        totalViews: video.totalViews,
+        completionPolicy: video.completionPolicy ?? null,
+        quiz: video.quiz ?? null,
+        viewLimit: video.viewLimit ?? null,
+        position: video.position ?? null,
+        ...getVideoMetadata(video),
+      }).onConflictDoNothing();
+      await this.insertKidData(video, userId);
+    }
+  }
+
+  async getAccountDeletion(userId: string): Promise<AccountDeletionState | undefined> {
+    const rows = await db.select().from(accountDeletionsTable).where(eq(accountDeletionsTable.userId, userId));
+    if (rows.length === 0) return undefined;
+    const { userId: _userId, ...state } = rows[0];
+    return state;
+  }
+
+  async saveAccountDeletion(userId: string, state: AccountDeletionState): Promise<void> {
+    await db.insert(accountDeletionsTable)
+      .values({ userId, ...state })
+      .onConflictDoUpdate({ target: accountDeletionsTable.userId, set: state });
+  }
+
+  async cancelAccountDeletion(userId: string): Promise<boolean> {
+    const rows = await db.delete(accountDeletionsTable).where(eq(accountDeletionsTable.userId, userId)).returning();
+    return rows.length > 0;
+  }
+
+  async getDueAccountDeletions(now: Date): Promise<string[]> {
+    const rows = await db.select({ userId: accountDeletionsTable.userId })
+      .from(accountDeletionsTable)
+      .where(lte(accountDeletionsTable.scheduledFor, now));
+    return rows.map(r => r.userId);
+  }
+
+  // Subscribers keep their copies of the master's playlists as ordinary playlists
+  async detachSubscribers(masterUserId: string): Promise<number> {
+    const masterFolders = await db.select({ id: foldersTable.id, name: foldersTable.name }).from(foldersTable).where(eq(foldersTable.userId, masterUserId));
+    if (masterFolders.length === 0) return 0;
+    const subs = await db.select().from(globalSubscriptionsTable).where(inArray(globalSubscriptionsTable.masterFolderId, masterFolders.map(f => f.id)));
+    const names = new Map(masterFolders.map(f => [f.id, f.name]));
+    for (const sub of subs) {
+      await db.update(foldersTable)
+        .set({ name: names.get(sub.masterFolderId)! })
+        .where(and(eq(foldersTable.userId, sub.userId), eq(foldersTable.name, `__global_${sub.masterFolderId}`)));
+      await db.delete(globalSubscriptionsTable).where(eq(globalSubscriptionsTable.id, sub.id));
+    }
+    return new Set(subs.map(s => s.userId)).size;
+  }
+
+  // Hard-deletes every row the user owns, trash included. The caller deletes the recording files.
+  async deleteAccountData(userId: string): Promise<{ recordingKeys: string[] }> {
+    const recordings = await db.delete(recordingsTable).where(eq(recordingsTable.userId, userId)).returning({ storageKey: recordingsTable.storageKey });
+    await db.delete(videoAssignmentsTable).where(eq(videoAssignmentsTable.userId, userId));
+    await db.delete(videoProgressTable).where(eq(videoProgressTable.userId, userId));
+    await db.delete(viewEventsTable).where(eq(viewEventsTable.userId, userId));
+    await db.delete(videosTable).where(eq(videosTable.userId, userId));
+    await db.delete(foldersTable).where(eq(foldersTable.userId, userId));
+    await db.delete(kidAccessTokensTable).where(eq(kidAccessTokensTable.userId, userId));
+    await db.delete(kidScreenTimeTable).where(eq(kidScreenTimeTable.userId, userId));
+    await db.delete(kidMergesTable).where(eq(kidMergesTable.userId, userId));
+    await db.delete(kidsTable).where(eq(kidsTable.userId, userId));
+    await db.delete(globalSubscriptionsTable).where(eq(globalSubscriptionsTable.userId, userId));
+    await db.delete(feedbackTable).where(eq(feedbackTable.userId, userId));
+    await db.delete(activityEventsTable).where(eq(activityEventsTable.userId, userId));
+    await db.delete(familySettingsTable).where(eq(familySettingsTable.userId, userId));
+    await db.delete(accountDeletionsTable).where(eq(accountDeletionsTable.userId, userId));
+    return { recordingKeys: recordings.map(r => r.storageKey) };
+  }
+
+  async logActivity(userId: string, event: NewActivityEvent): Promise<ActivityEvent> {
+    const created = newActivityEvent(event);
+    await db.insert(activityEventsTable).values({ ...created, userId, createdAt: new Date(created.createdAt) });
+    return created;
+  }
+
+  async getActivity(userId: string, query: ActivityQuery): Promise<ActivityPage> {
+    const conditions: SQL[] = [eq(activityEventsTable.userId, userId)];
+    if (query.type) conditions.push(eq(activityEventsTable.type, query.type));
+    if (query.actor) conditions.push(eq(activityEventsTable.actor, query.actor));
+    if (query.kidId) conditions.push(eq(activityEventsTable.kidId, query.kidId));
+    if (query.videoId) conditions.push(eq(activityEventsTable.videoId, query.videoId));
+    if (query.since) conditions.push(gte(activityEventsTable.createdAt, new Date(query.since)));
+    if (query.until) conditions.push(lt(activityEventsTable.createdAt, new Date(query.until)));
+    if (query.cursor) {
+      const [after] = await db.select({ createdAt: activityEventsTable.createdAt }).from(activityEventsTable)
+        .where(and(eq(activityEventsTable.id, query.cursor), eq(activityEventsTable.userId, userId)));
+      if (!after) return { events: [], nextCursor: null };
+      conditions.push(or(
+        lt(activityEventsTable.createdAt, after.createdAt),
+        and(eq(activityEventsTable.createdAt, after.createdAt), lt(activityEventsTable.id, query.cursor)),
+      )!);
     }
+
+    const rows = await db.select().from(activityEventsTable)
+      .where(and(...conditions))
+      .orderBy(desc(activityEventsTable.createdAt), desc(activityEventsTable.id))
+      .limit(query.limit + 1);
+    const events = rows.slice(0, query.limit).map(toActivityEvent);
+    return { events, nextCursor: rows.length > query.limit ? events[events.length - 1].id : null };
   }
 
   async createFeedback(feedback: InsertFeedback, userId: string): Promise<Feedback> {
@@ -321,8 +1905,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getGlobalFolders(masterUserId: string): Promise<Folder[]> {
-    const rows = await db.select().from(foldersTable).where(eq(foldersTable.userId, masterUserId));
-    return rows.filter(r => !r.name.startsWith("__global_")).map(r => ({ id: r.id, name: r.name }));
+    return (await this.getFolders(masterUserId)).filter(f => !f.name.startsWith("__global_"));
   }
 
   async getGlobalFoldersWithCounts(masterUserId: string): Promise<(Folder & { videoCount: number })[]> {
@@ -334,7 +1917,8 @@ export class DatabaseStorage implements IStorage {
       .from(videosTable)
       .where(and(
         eq(videosTable.userId, masterUserId),
-        inArray(videosTable.folderId, folderIds)
+        inArray(videosTable.folderId, folderIds),
+        isNull(videosTable.deletedAt)
       ))
       .groupBy(videosTable.folderId);
     const countMap = new Map(countRows.map(r => [r.folderId, Number(r.videoCount)]));
@@ -342,20 +1926,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getGlobalVideos(masterUserId: string, folderId: string): Promise<Video[]> {
-    const rows = await db.select().from(videosTable).where(
-      and(eq(videosTable.userId, masterUserId), eq(videosTable.folderId, folderId))
-    );
-    return rows.map(r => ({
-      id: r.id,
-      url: r.url,
-      ytId: r.ytId,
-      platform: (r.platform || "youtube") as VideoPlatform,
-      folderId: r.folderId,
-      priority: r.priority ?? VIDEO_PRIORITY_DEFAULT,
-      assigned: r.assigned,
-      progress: r.progress,
-      totalViews: r.totalViews,
-    }));
+    return this.selectVideos(and(eq(videosTable.userId, masterUserId), eq(videosTable.folderId, folderId)));
   }
 
   async getSubscriptions(userId: string): Promise<GlobalSubscription[]> {
@@ -390,24 +1961,45 @@ export class DatabaseStorage implements IStorage {
     return { id, userId, masterFolderId, kidIds, createdAt: createdAt.toISOString() };
   }
 
-  async unsubscribe(userId: string, masterFolderId: string): Promise<boolean> {
+  // Synced folders aren't kept in the trash: a later subscription to the same playlist
+  // would find the trashed folder by name. Their videos go with everything hanging off them.
+  private async removeSyncedFolder(folderId: string, userId: string): Promise<SyncedFolderRemoval> {
+    const deleted = await db.delete(videosTable).where(
+      and(eq(videosTable.userId, userId), eq(videosTable.folderId, folderId))
+    ).returning({ id: videosTable.id });
+    const videoIds = deleted.map(v => v.id);
+    let recordingKeys: string[] = [];
+    if (videoIds.length > 0) {
+      const progressRows = await db.select({ progress: videoProgressTable.progress }).from(videoProgressTable).where(inArray(videoProgressTable.videoId, videoIds));
+      const audioIds = progressRows.flatMap(r => getProgressAudioIds(r.progress));
+      await this.deleteKidData(videoIds);
+      await db.delete(viewEventsTable).where(inArray(viewEventsTable.videoId, videoIds));
+      if (audioIds.length > 0) {
+        const recordings = await db.delete(recordingsTable)
+          .where(and(eq(recordingsTable.userId, userId), inArray(recordingsTable.id, audioIds)))
+          .returning({ storageKey: recordingsTable.storageKey });
+        recordingKeys = recordings.map(r => r.storageKey);
+      }
+    }
+    await db.delete(foldersTable).where(eq(foldersTable.id, folderId));
+    return { videoIds, recordingKeys };
+  }
+
+  async unsubscribe(userId: string, masterFolderId: string): Promise<SyncedFolderRemoval | null> {
     const sub = await db.select().from(globalSubscriptionsTable).where(
       and(eq(globalSubscriptionsTable.userId, userId), eq(globalSubscriptionsTable.masterFolderId, masterFolderId))
     );
-    if (sub.length === 0) return false;
+    if (sub.length === 0) return null;
 
     const localFolder = await db.select().from(foldersTable).where(
       and(eq(foldersTable.userId, userId), eq(foldersTable.name, `__global_${masterFolderId}`))
     );
-    if (localFolder.length > 0) {
-      await db.delete(videosTable).where(
-        and(eq(videosTable.userId, userId), eq(videosTable.folderId, localFolder[0].id))
-      );
-      await db.delete(foldersTable).where(eq(foldersTable.id, localFolder[0].id));
-    }
+    const removal = localFolder.length > 0
+      ? await this.removeSyncedFolder(localFolder[0].id, userId)
+      : { videoIds: [], recordingKeys: [] };
 
     await db.delete(globalSubscriptionsTable).where(eq(globalSubscriptionsTable.id, sub[0].id));
-    return true;
+    return removal;
   }
 
   async syncSubscription(userId: string, masterFolderId: string, masterUserId: string): Promise<void> {
@@ -421,7 +2013,7 @@ export class DatabaseStorage implements IStorage {
     const targetKids = kidIds.length > 0 ? allKids.filter(k => kidIds.includes(k.id)) : allKids;
 
     const masterFolder = await db.select().from(foldersTable).where(
-      and(eq(foldersTable.id, masterFolderId), eq(foldersTable.userId, masterUserId))
+      and(eq(foldersTable.id, masterFolderId), eq(foldersTable.userId, masterUserId), isNull(foldersTable.deletedAt))
     );
     if (masterFolder.length === 0) return;
 
@@ -430,22 +2022,37 @@ export class DatabaseStorage implements IStorage {
       and(eq(foldersTable.userId, userId), eq(foldersTable.name, localFolderName))
     );
 
+    const folderPolicy = masterFolder[0].completionPolicy ?? null;
     let localFolderId: string;
     if (localFolderRows.length === 0) {
       localFolderId = `folder_${Date.now()}_${randomUUID().slice(0, 8)}`;
-      await db.insert(foldersTable).values({ id: localFolderId, userId, name: localFolderName });
+      await db.insert(foldersTable).values({ id: localFolderId, userId, name: localFolderName, completionPolicy: folderPolicy });
     } else {
       localFolderId = localFolderRows[0].id;
+      if (!isSameJson(localFolderRows[0].completionPolicy, folderPolicy)) {
+        await db.update(foldersTable).set({ completionPolicy: folderPolicy }).where(eq(foldersTable.id, localFolderId));
+      }
     }
 
     const masterVideos = await this.getGlobalVideos(masterUserId, masterFolderId);
     const existingLocal = await db.select().from(videosTable).where(
       and(eq(videosTable.userId, userId), eq(videosTable.folderId, localFolderId))
     );
-    const existingYtIds = new Set(existingLocal.map(v => v.ytId));
+    const existingByYtId = new Map(existingLocal.map(v => [v.ytId, v]));
 
     for (const mv of masterVideos) {
-      if (existingYtIds.has(mv.ytId)) continue;
+      const local = existingByYtId.get(mv.ytId);
+      if (local) {
+        // Curator settings, order and platform metadata follow the master copy; kid progress stays local
+        const metadata = getVideoMetadata(mv);
+        const position = mv.position ?? null;
+        if (!isSameJson(local.completionPolicy, mv.completionPolicy) || !isSameJson(local.quiz, mv.quiz) || local.position !== position || !isSameJson(getVideoMetadata(toVideo(local)), metadata)) {
+          await db.update(videosTable)
+            .set({ completionPolicy: mv.completionPolicy ?? null, quiz: mv.quiz ?? null, position, ...metadata })
+            .where(eq(videosTable.id, local.id));
+        }
+        continue;
+      }
 
       const id = `vid_${Date.now()}_${randomUUID().slice(0, 8)}_g`;
       const assigned: Record<string, boolean> = {};
@@ -463,10 +2070,14 @@ export class DatabaseStorage implements IStorage {
         platform: mv.platform,
         folderId: localFolderId,
         priority: mv.priority,
-        assigned,
-        progress,
         totalViews: 0,
+        completionPolicy: mv.completionPolicy ?? null,
+        quiz: mv.quiz ?? null,
+        position: mv.position ?? null,
+        ...getVideoMetadata(mv),
       });
+      await this.insertKidData({ id, assigned, progress }, userId);
+      await this.logActivity(userId, { type: "video_added", actor: "sync", videoId: id, details: { url: mv.url, masterFolderId } });
     }
   }
 
@@ -477,19 +2088,1199 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async cleanupGlobalData(userId: string): Promise<void> {
+  async cleanupGlobalData(userId: string): Promise<SyncedFolderRemoval> {
     const allFolders = await db.select().from(foldersTable).where(eq(foldersTable.userId, userId));
     const globalFolders = allFolders.filter(f => f.name.startsWith("__global_"));
 
+    const removal: SyncedFolderRemoval = { videoIds: [], recordingKeys: [] };
     for (const gf of globalFolders) {
-      await db.delete(videosTable).where(
-        and(eq(videosTable.userId, userId), eq(videosTable.folderId, gf.id))
-      );
-      await db.delete(foldersTable).where(eq(foldersTable.id, gf.id));
+      const { videoIds, recordingKeys } = await this.removeSyncedFolder(gf.id, userId);
+      removal.videoIds.push(...videoIds);
+      removal.recordingKeys.push(...recordingKeys);
     }
 
     await db.delete(globalSubscriptionsTable).where(eq(globalSubscriptionsTable.userId, userId));
+    return removal;
+  }
+}
+
+
+type Owned<T> = T & { userId: string };
+type KidScreenTime = { userId: string; weekdayMinutes: number | null; weekendMinutes: number | null; viewingWindows: ViewingWindow[]; overrideExpiresAt: Date | null };
+type FamilyRow = FamilySettings & ParentPinState;
+
+type Trashed<T> = { item: Owned<T>; deletedAt: Date };
+
+function stripOwner<T>({ userId: _userId, ...rest }: Owned<T>): T {
+  return structuredClone(rest) as T;
+}
+
+function takeExpired<T extends { id: string }>(trash: Map<string, Trashed<T>>, deletedBefore: Date): Owned<T>[] {
+  const expired = Array.from(trash.values()).filter(t => t.deletedAt < deletedBefore).map(t => t.item);
+  for (const item of expired) trash.delete(item.id);
+  return expired;
+}
+
+// In-process implementation for local development and API tests (STORAGE_BACKEND=memory).
+// Mirrors DatabaseStorage rule for rule; callers get copies so they can't mutate the store.
+export class MemStorage implements IStorage {
+  private kids = new Map<string, Owned<Kid>>();
+  private folders = new Map<string, Owned<Folder>>();
+  private videos = new Map<string, Owned<Video>>();
+  private feedback: Owned<Feedback>[] = [];
+  private subscriptions = new Map<string, GlobalSubscription>();
+  private familySettings = new Map<string, FamilyRow>();
+  private screenTime = new Map<string, KidScreenTime>();
+  private accessTokens = new Map<string, Owned<KidAccessToken> & { tokenHash: string }>();
+  private viewEvents = new Map<string, Owned<ViewEvent>>();
+  private recordings = new Map<string, Owned<StoredRecording & { storageKey: string }>>();
+  private trashedKids = new Map<string, Trashed<Kid>>();
+  private trashedFolders = new Map<string, Trashed<Folder>>();
+  private trashedVideos = new Map<string, Trashed<Video>>();
+  private merges = new Map<string, Owned<KidMerge> & { snapshot: KidMergeSnapshot[] }>();
+  private accountDeletions = new Map<string, AccountDeletionState>();
+  private activity: Owned<ActivityEvent>[] = [];
+  private metadataFetchedAt = new Map<string, Date>(); // videoId -> last metadata lookup
+
+  private saveVideo(video: Video, userId: string): void {
+    // Callers see videos in a trashed folder as unfiled; keep the stored folder for a restore
+    const folderId = this.videos.get(video.id)?.folderId;
+    const keepFolder = video.folderId === null && !!folderId && this.trashedFolders.has(folderId);
+    this.videos.set(video.id, { ...structuredClone(video), folderId: keepFolder ? folderId : video.folderId, userId });
+  }
+
+  private toVideo(video: Owned<Video>): Video {
+    const copy = stripOwner(video);
+    if (copy.folderId && this.trashedFolders.has(copy.folderId)) copy.folderId = null;
+    return copy;
+  }
+
+  private videosOf(userId: string): Owned<Video>[] {
+    return Array.from(this.videos.values()).filter(v => v.userId === userId);
+  }
+
+  // Writes back a copy of a stored video, whether it is active or in the trash
+  private replaceVideo(video: Owned<Video>): void {
+    const trashed = this.trashedVideos.get(video.id);
+    if (trashed) trashed.item = video;
+    else this.videos.set(video.id, video);
+  }
+
+  private allVideos(): Owned<Video>[] {
+    return [...Array.from(this.videos.values()), ...Array.from(this.trashedVideos.values()).map(t => t.item)];
+  }
+
+  private trashOf<T>(trash: Map<string, Trashed<T>>, userId: string): (T & { deletedAt: string; purgeAt: string })[] {
+    return Array.from(trash.values())
+      .filter(t => t.item.userId === userId)
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime())
+      .map(t => ({ ...stripOwner(t.item), ...toTrashDates(t.deletedAt) }));
+  }
+
+  async getKids(userId: string): Promise<Kid[]> {
+    return Array.from(this.kids.values()).filter(k => k.userId === userId).map(stripOwner);
+  }
+
+  async getKid(id: string, userId: string): Promise<Kid | undefined> {
+    const kid = this.kids.get(id);
+    return kid?.userId === userId ? stripOwner(kid) : undefined;
+  }
+
+  async createKid(insertKid: InsertKid, userId: string): Promise<Kid> {
+    const id = `kid_${Date.now()}_${randomUUID().slice(0, 8)}`;
+    const kid: Kid = { ...insertKid, id };
+    this.kids.set(id, { ...kid, userId });
+
+    for (const video of this.allVideos().filter(v => v.userId === userId)) {
+      video.assigned[id] = true;
+      video.progress[id] = { watched: false };
+    }
+    return kid;
+  }
+
+  async updateKid(id: string, userId: string, updates: Partial<InsertKid>): Promise<Kid | null> {
+    const existing = await this.getKid(id, userId);
+    if (!existing) return null;
+    const updated = { ...existing, ...updates };
+    this.kids.set(id, { ...updated, userId });
+    return updated;
+  }
+
+  async deleteKid(id: string, userId: string): Promise<boolean> {
+    const kid = this.kids.get(id);
+    if (kid?.userId !== userId) return false;
+    const deletedAt = new Date();
+    this.kids.delete(id);
+    this.trashedKids.set(id, { item: kid, deletedAt });
+
+    for (const video of this.allVideos()) {
+      if (video.userId === userId) archiveKidProgress(video, id, deletedAt.toISOString());
+    }
+    return true;
+  }
+
+  async restoreKid(id: string, userId: string): Promise<Kid | null> {
+    const trashed = this.trashedKids.get(id);
+    if (trashed?.item.userId !== userId) return null;
+    this.trashedKids.delete(id);
+    this.kids.set(id, trashed.item);
+
+    for (const video of this.allVideos()) {
+      if (video.userId === userId) restoreKidProgress(video, id, trashed.deletedAt.toISOString());
+    }
+    return stripOwner(trashed.item);
+  }
+
+  async mergeKids(sourceKidId: string, targetKidId: string, userId: string, dryRun: boolean): Promise<{ merge: KidMergePlan | KidMerge | null; error?: string }> {
+    if (!this.kids.has(sourceKidId) || !this.kids.has(targetKidId) || this.kids.get(sourceKidId)!.userId !== userId || this.kids.get(targetKidId)!.userId !== userId) {
+      return { merge: null, error: "Kid not found" };
+    }
+
+    // Works on copies so a dry run leaves the store untouched
+    const videos = this.allVideos().filter(v => v.userId === userId).map(v => structuredClone(v));
+    const { plan, snapshot, changed } = applyKidMerge(videos, sourceKidId, targetKidId);
+    const audio = Array.from(this.recordings.values()).filter(r => r.userId === userId && r.kidId === sourceKidId);
+    const audioIds = audio.map(r => r.id);
+    if (dryRun) return { merge: { sourceKidId, targetKidId, videos: plan, audioIds } };
+
+    for (const video of changed) this.replaceVideo(video);
+    for (const recording of audio) recording.kidId = targetKidId;
+    await this.deleteKid(sourceKidId, userId);
+
+    const createdAt = new Date();
+    const merge: KidMerge = {
+      id: `merge_${createdAt.getTime()}_${randomUUID().slice(0, 8)}`,
+      sourceKidId,
+      targetKidId,
+      videos: plan,
+      audioIds,
+      createdAt: createdAt.toISOString(),
+      undoUntil: new Date(createdAt.getTime() + KID_MERGE_UNDO_HOURS * 60 * 60 * 1000).toISOString(),
+      undoneAt: null,
+    };
+    this.merges.set(merge.id, { ...merge, userId, snapshot });
+    return { merge: structuredClone(merge) };
+  }
+
+  async getKidMerges(userId: string): Promise<KidMerge[]> {
+    return Array.from(this.merges.values())
+      .filter(m => m.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(({ snapshot: _snapshot, ...merge }) => stripOwner(merge));
+  }
+
+  async undoKidMerge(id: string, userId: string): Promise<{ merge: KidMerge | null; error?: string }> {
+    const stored = this.merges.get(id);
+    if (stored?.userId !== userId) return { merge: null, error: "Merge not found" };
+    const { snapshot, userId: _owner, ...merge } = stored;
+
+    const now = new Date();
+    const videos = this.allVideos().filter(v => v.userId === userId).map(v => structuredClone(v));
+    const undoError = getMergeUndoError(merge, snapshot, videos, now);
+    if (undoError) return { merge: null, error: undoError };
+    if (!(await this.restoreKid(merge.sourceKidId, userId))) {
+      return { merge: null, error: "The merged kid is no longer in the trash" };
+    }
+
+    for (const video of undoKidMerge(videos, merge, snapshot)) this.replaceVideo(video);
+    for (const audioId of merge.audioIds) {
+      const recording = this.recordings.get(audioId);
+      if (recording) recording.kidId = merge.sourceKidId;
+    }
+    stored.undoneAt = now.toISOString();
+    return { merge: { ...structuredClone(merge), undoneAt: stored.undoneAt } };
+  }
+
+  async getFolders(userId: string): Promise<Folder[]> {
+    return Array.from(this.folders.values()).filter(f => f.userId === userId).map(stripOwner).sort(compareByPosition);
+  }
+
+  async getFolder(id: string, userId: string): Promise<Folder | undefined> {
+    const folder = this.folders.get(id);
+    return folder?.userId === userId ? stripOwner(folder) : undefined;
+  }
+
+  async createFolder(insertFolder: InsertFolder, userId: string): Promise<Folder> {
+    const id = `folder_${Date.now()}_${randomUUID().slice(0, 8)}`;
+    const folder: Folder = { unlockMode: "strict", ...insertFolder, id };
+    this.folders.set(id, { ...structuredClone(folder), userId });
+    return folder;
+  }
+
+  async updateFolder(id: string, userId: string, updates: Partial<InsertFolder>): Promise<Folder | null> {
+    const existing = await this.getFolder(id, userId);
+    if (!existing) return null;
+    const updated = { ...existing, ...updates };
+    this.folders.set(id, { ...structuredClone(updated), userId });
+    return updated;
+  }
+
+  async deleteFolder(id: string, userId: string, children: FolderDeleteMode = "trash"): Promise<boolean> {
+    const folder = this.folders.get(id);
+    if (folder?.userId !== userId) return false;
+
+    const folders = await this.getFolders(userId);
+    const ids = [id];
+    if (children === "move_up") {
+      for (const child of folders.filter(f => f.parentId === id)) this.folders.get(child.id)!.parentId = folder.parentId ?? null;
+      getMoveUpOrder(id, folders).forEach((siblingId, i) => {
+        this.folders.get(siblingId)!.position = i;
+      });
+    } else {
+      ids.push(...getDescendantIds(id, folders));
+    }
+    const deletedAt = new Date();
+    for (const trashedId of ids) {
+      this.trashedFolders.set(trashedId, { item: this.folders.get(trashedId)!, deletedAt });
+      this.folders.delete(trashedId);
+    }
+    return true;
+  }
+
+  async restoreFolder(id: string, userId: string): Promise<Folder | null> {
+    const trashed = this.trashedFolders.get(id);
+    if (trashed?.item.userId !== userId) return null;
+
+    const sameDeletion = Array.from(this.trashedFolders.values())
+      .filter(t => t.item.userId === userId && t.deletedAt.getTime() === trashed.deletedAt.getTime())
+      .map(t => t.item);
+    for (const restoredId of [id, ...getDescendantIds(id, sameDeletion)]) {
+      this.folders.set(restoredId, this.trashedFolders.get(restoredId)!.item);
+      this.trashedFolders.delete(restoredId);
+    }
+    // A folder restored without its parent goes to the top level
+    if (trashed.item.parentId && !this.folders.has(trashed.item.parentId)) trashed.item.parentId = null;
+    return stripOwner(trashed.item);
+  }
+
+  async moveFolder(id: string, parentId: string | null, userId: string): Promise<{ folder: Folder | null; error?: string }> {
+    const folders = await this.getFolders(userId);
+    const folder = this.folders.get(id);
+    if (folder?.userId !== userId) return { folder: null, error: "Folder not found" };
+    const error = getFolderMoveError(id, parentId, folders);
+    if (error) return { folder: null, error };
+    if ((folder.parentId ?? null) !== parentId) {
+      folder.parentId = parentId;
+      folder.position = null;
+    }
+    return { folder: stripOwner(folder) };
+  }
+
+  async reorderFolders(parentId: string | null, ids: string[], userId: string): Promise<{ folders: Folder[] | null; error?: string }> {
+    const folders = await this.getFolders(userId);
+    if (parentId && !folders.some(f => f.id === parentId)) return { folders: null, error: "Folder not found" };
+    const error = getReorderError(ids, getChildIds(parentId, folders));
+    if (error) return { folders: null, error };
+    ids.forEach((id, i) => {
+      this.folders.get(id)!.position = i;
+    });
+    return { folders: await this.getFolders(userId) };
+  }
+
+  async getVideos(userId: string): Promise<Video[]> {
+    return this.videosOf(userId).map(v => this.toVideo(v)).sort(compareByPosition);
+  }
+
+  async queryVideos(userId: string, query: VideoQuery): Promise<VideoPage> {
+    const search = query.q?.toLowerCase();
+    const matches = (video: Video) => {
+      if (search && !(video.title ?? "").toLowerCase().includes(search) && !video.url.toLowerCase().includes(search)) return false;
+      if (query.folderId && (video.folderId ?? "none") !== query.folderId) return false;
+      if (query.platform && video.platform !== query.platform) return false;
+      if (query.minPriority !== undefined && video.priority < query.minPriority) return false;
+      if (query.maxPriority !== undefined && video.priority > query.maxPriority) return false;
+      if (!query.kidId) return true;
+
+      const progress = video.progress[query.kidId];
+      const current = progress && !progress.archivedAt ? progress : undefined;
+      switch (query.status) {
+        case "watched": return !!current?.watched;
+        case "awaiting_review": return !!current && ((current.watched && current.parentReviewed === false) || !!current.awaitingSignoff);
+        case "unwatched": return !!video.assigned[query.kidId] && !current?.watched;
+        default: return !!video.assigned[query.kidId];
+      }
+    };
+
+    const sign = query.order === "asc" ? 1 : -1;
+    const compare = (a: Video, b: Video) => {
+      const [keyA, keyB] = [getVideoSortKey(a, query.sort), getVideoSortKey(b, query.sort)];
+      if (keyA !== keyB) return keyA < keyB ? -sign : sign;
+      return a.id < b.id ? -sign : a.id > b.id ? sign : 0;
+    };
+    let matching = this.videosOf(userId).map(v => this.toVideo(v)).filter(matches).sort(compare);
+    if (query.cursor) {
+      // Trashed videos still work as a cursor
+      const stored = this.videos.get(query.cursor) ?? this.trashedVideos.get(query.cursor)?.item;
+      if (stored?.userId !== userId) return { videos: [], nextCursor: null };
+      const after = stripOwner(stored);
+      matching = matching.filter(v => compare(after, v) < 0);
+    }
+
+    const videos = matching.slice(0, query.limit);
+    return { videos, nextCursor: matching.length > query.limit ? videos[videos.length - 1].id : null };
+  }
+
+  async getVideo(id: string, userId: string): Promise<Video | undefined> {
+    const video = this.videos.get(id);
+    return video?.userId === userId ? this.toVideo(video) : undefined;
+  }
+
+  async createVideo(url: string, kidIds: string[] | undefined, allKids: Kid[], userId: string, folderId?: string | null, priority?: number): Promise<{ video: Video | null; error?: string }> {
+    const videoInfo = getVideoInfo(url);
+    if (!videoInfo) return { video: null, error: "Invalid video URL. Please paste a valid YouTube or TikTok link." };
+
+    const { platform, videoId } = videoInfo;
+    if (this.videosOf(userId).some(v => v.ytId === videoId)) {
+      return { video: null, error: "This video has already been added to your library." };
+    }
+
+    const id = `vid_${Date.now()}_${randomUUID().slice(0, 8)}`;
+    const assigned: Record<string, boolean> = {};
+    const progress: Record<string, VideoProgress> = {};
+
+    const targetKids = kidIds && kidIds.length > 0
+      ? allKids.filter(k => kidIds.includes(k.id))
+      : allKids;
+
+    for (const kid of targetKids) {
+      assigned[kid.id] = true;
+      progress[kid.id] = { watched: false };
+    }
+
+    const video: Video = { id, url, ytId: videoId, platform, folderId: folderId || null, priority: priority ?? VIDEO_PRIORITY_DEFAULT, assigned, progress, totalViews: 0 };
+    this.saveVideo(video, userId);
+    return { video };
+  }
+
+  async updateVideo(id: string, userId: string, updates: { priority?: number; folderId?: string | null; completionPolicy?: CompletionPolicy | null; viewLimit?: number | null }): Promise<Video | null> {
+    const video = await this.getVideo(id, userId);
+    if (!video) return null;
+
+    if (updates.priority !== undefined) video.priority = updates.priority;
+    if (updates.folderId !== undefined && updates.folderId !== video.folderId) video.position = null;
+    if (updates.folderId !== undefined) video.folderId = updates.folderId;
+    if (updates.completionPolicy !== undefined) video.completionPolicy = updates.completionPolicy;
+    if (updates.viewLimit !== undefined) video.viewLimit = updates.viewLimit;
+    this.saveVideo(video, userId);
+    if (updates.folderId !== undefined) this.videos.get(id)!.folderId = updates.folderId;
+
+    return video;
+  }
+
+  async deleteVideo(id: string, userId: string): Promise<boolean> {
+    const video = this.videos.get(id);
+    if (video?.userId !== userId) return false;
+    this.videos.delete(id);
+    this.trashedVideos.set(id, { item: video, deletedAt: new Date() });
+    return true;
+  }
+
+  async restoreVideo(id: string, userId: string): Promise<{ video: Video | null; error?: string }> {
+    const trashed = this.trashedVideos.get(id);
+    if (trashed?.item.userId !== userId) return { video: null, error: "Video not found in trash" };
+    if (this.videosOf(userId).some(v => v.ytId === trashed.item.ytId)) {
+      return { video: null, error: "This video has been added to your library again since it was deleted." };
+    }
+    this.trashedVideos.delete(id);
+    this.videos.set(id, trashed.item);
+    return { video: this.toVideo(trashed.item) };
+  }
+
+  async reorderVideos(folderId: string, ids: string[], userId: string): Promise<{ videos: Video[] | null; error?: string }> {
+    if (!(await this.getFolder(folderId, userId))) return { videos: null, error: "Folder not found" };
+    const error = getReorderError(ids, (await this.getVideos(userId)).filter(v => v.folderId === folderId).map(v => v.id));
+    if (error) return { videos: null, error };
+    ids.forEach((id, i) => {
+      this.videos.get(id)!.position = i;
+    });
+    return { videos: (await this.getVideos(userId)).filter(v => v.folderId === folderId) };
+  }
+
+  async updateVideoAssignments(videoIds: string[], userId: string, changes: VideoAssignment): Promise<Video[]> {
+    const videos = (await this.getVideos(userId)).filter(v => videoIds.includes(v.id));
+    for (const video of videos) {
+      if (applyAssignmentChanges(video, changes)) this.saveVideo(video, userId);
+    }
+    return videos;
+  }
+
+  async markVideoWatched(videoId: string, kidId: string, voiceRecording: VoiceRecording | undefined, userId: string, origin: ViewOrigin = { source: "parent" }): Promise<{ video: Video | null; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { video: null, error: "Video not found" };
+
+    const folder = video.folderId ? await this.getFolder(video.folderId, userId) : undefined;
+    const lockError = await this.getUnlockError(video, folder, kidId, userId);
+    if (lockError) return { video: null, error: lockError };
+
+    const policy = getEffectiveCompletionPolicy(video, folder);
+    const policyError = getCompletionPolicyError(policy, video, voiceRecording);
+    if (policyError) return { video: null, error: policyError };
+
+    const now = new Date();
+    const viewError = await this.countCompletionView(video, folder, kidId, origin, userId, now);
+    if (viewError) return { video: null, error: viewError };
+    if (policy.type === "parent_signoff") {
+      applySignoffRequest(video, kidId, voiceRecording, now);
+    } else {
+      applyCompletion(video, kidId, voiceRecording, now);
+    }
+    this.saveVideo(video, userId);
+
+    return { video };
+  }
+
+  private async getUnlockError(video: Video, folder: Folder | undefined, kidId: string, userId: string): Promise<string | null> {
+    if (folder?.unlockMode === "off") return null;
+    const folderId = folder?.id ?? null;
+    const siblings = (await this.getVideos(userId)).filter(v => (v.folderId ?? null) === folderId);
+    const state = getVideoLockStates(siblings, folder ? [folder] : [], kidId).get(video.id);
+    return state?.locked ? "Finish the earlier videos in this playlist first" : null;
+  }
+
+  async signoffVideo(videoId: string, kidId: string, signoff: Signoff, userId: string): Promise<{ video: Video | null; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { video: null, error: "Video not found" };
+    if (!video.progress[kidId]?.awaitingSignoff) return { video: null, error: "This video is not waiting for sign-off" };
+
+    applySignoff(video, kidId, signoff, new Date());
+    this.saveVideo(video, userId);
+
+    return { video };
+  }
+
+  async setVideoQuiz(videoId: string, userId: string, quiz: Quiz | null): Promise<Video | null> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return null;
+    video.quiz = quiz;
+    this.saveVideo(video, userId);
+    return video;
+  }
+
+  async submitQuiz(videoId: string, kidId: string, answers: Record<string, string>, userId: string, origin: ViewOrigin = { source: "parent" }): Promise<{ video: Video | null; attempt?: QuizAttempt; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { video: null, error: "Video not found" };
+    if (!video.quiz) return { video: null, error: "This video has no quiz" };
+    if (!video.assigned[kidId]) return { video: null, error: "This video is not assigned to this kid" };
+
+    const folder = video.folderId ? await this.getFolder(video.folderId, userId) : undefined;
+    const lockError = await this.getUnlockError(video, folder, kidId, userId);
+    if (lockError) return { video: null, error: lockError };
+
+    const now = new Date();
+    const policy = getEffectiveCompletionPolicy(video, folder);
+    // Under a quiz policy the quiz is the completion, so it is held to the view limit. Only
+    // a passing attempt uses up the view; failed ones can be retried for free.
+    const view = policy.type === "quiz" ? await this.checkCompletionView(video, folder, kidId, userId, now) : { isRedo: null };
+    if (view.error) return { video: null, error: view.error };
+    const attempt = scoreQuiz(video.quiz, answers, now);
+
+    if (attempt.passed && policy.type === "quiz") {
+      if (view.isRedo !== null) this.insertViewEvent(`view_${now.getTime()}_${randomUUID().slice(0, 8)}`, video.id, kidId, origin, view.isRedo, now, userId);
+      applyCompletion(video, kidId, undefined, now);
+    }
+    const progress = video.progress[kidId] || { watched: false };
+    video.progress[kidId] = { ...progress, quizAttempts: [...(progress.quizAttempts || []), attempt] };
+    this.saveVideo(video, userId);
+
+    return { video, attempt };
+  }
+
+  async reviewRecording(videoId: string, kidId: string, recordingId: string, review: ReviewRecording, userId: string): Promise<{ video: Video | null; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { video: null, error: "Video not found" };
+
+    const progress = video.progress[kidId];
+    if (!progress) return { video: null, error: "This kid has no progress on this video" };
+
+    const result = applyRecordingReview(progress, recordingId, review, new Date());
+    if (!result.progress) return { video: null, error: result.error };
+    video.progress[kidId] = result.progress;
+    this.saveVideo(video, userId);
+
+    return { video };
+  }
+
+  async startWatchSession(videoId: string, kidId: string, origin: ViewOrigin, userId: string): Promise<{ session: WatchSession | null; resumePosition?: number; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { session: null, error: "Video not found" };
+    if (!video.assigned[kidId]) return { session: null, error: "This video is not assigned to this kid" };
+
+    const now = new Date();
+    const progress = video.progress[kidId] || { watched: false };
+    const resumable = getResumableSession(progress, now);
+    if (resumable) return { session: resumable, resumePosition: getResumePosition(progress) };
+
+    const folder = video.folderId ? await this.getFolder(video.folderId, userId) : undefined;
+    const { isRedo, error } = await this.checkNewView(video, folder, kidId, userId);
+    if (error) return { session: null, error };
+
+    const session: WatchSession = {
+      id: `ws_${now.getTime()}_${randomUUID().slice(0, 8)}`,
+      startedAt: now.toISOString(),
+      lastHeartbeatAt: now.toISOString(),
+      watchedSeconds: 0,
+    };
+    video.progress[kidId] = { ...progress, watchSession: session };
+
+    this.insertViewEvent(session.id, videoId, kidId, origin, isRedo, now, userId);
+    this.saveVideo(video, userId);
+
+    return { session, resumePosition: getResumePosition(progress) };
+  }
+
+  private async checkNewView(video: Video, folder: Folder | undefined, kidId: string, userId: string): Promise<{ isRedo: boolean; error?: string }> {
+    const redo = video.progress[kidId]?.redoRequest;
+    if (redo) {
+      const redoViews = Array.from(this.viewEvents.values()).filter(e =>
+        e.userId === userId && e.videoId === video.id && e.kidId === kidId && e.isRedo && e.startedAt >= new Date(redo.requestedAt).toISOString());
+      if (redoViews.length === 0) return { isRedo: true };
+    }
+
+    const { viewLimit } = await this.getFamilySettings(userId);
+    const limit = getEffectiveViewLimit(video, folder, viewLimit);
+    const views = (await this.getViewCountsForKid(kidId, userId))[video.id] ?? 0;
+    if (limit !== null && views >= limit) {
+      return { isRedo: false, error: `This video has reached the maximum number of views (${limit})` };
+    }
+    return { isRedo: false };
+  }
+
+  private async countCompletionView(video: Video, folder: Folder | undefined, kidId: string, origin: ViewOrigin, userId: string, now: Date): Promise<string | null> {
+    const { isRedo, error } = await this.checkCompletionView(video, folder, kidId, userId, now);
+    if (error) return error;
+    if (isRedo !== null) this.insertViewEvent(`view_${now.getTime()}_${randomUUID().slice(0, 8)}`, video.id, kidId, origin, isRedo, now, userId);
+    return null;
+  }
+
+  // isRedo is null when an open watch session already counted the view
+  private async checkCompletionView(video: Video, folder: Folder | undefined, kidId: string, userId: string, now: Date): Promise<{ isRedo: boolean | null; error?: string }> {
+    if (getResumableSession(video.progress[kidId], now)) return { isRedo: null };
+    return this.checkNewView(video, folder, kidId, userId);
+  }
+
+  private insertViewEvent(id: string, videoId: string, kidId: string, origin: ViewOrigin, isRedo: boolean, startedAt: Date, userId: string): void {
+    this.viewEvents.set(id, {
+      id,
+      userId,
+      videoId,
+      kidId,
+      startedAt: startedAt.toISOString(),
+      endedAt: null,
+      watchedSeconds: 0,
+      source: origin.source,
+      accessTokenId: origin.accessTokenId ?? null,
+      isRedo,
+    });
+  }
+
+  async recordWatchHeartbeat(videoId: string, kidId: string, heartbeat: WatchHeartbeat, dayKey: string, userId: string): Promise<{ progress: VideoProgress | null; error?: string }> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return { progress: null, error: "Video not found" };
+    if (!video.assigned[kidId]) return { progress: null, error: "This video is not assigned to this kid" };
+
+    const progress = video.progress[kidId];
+    const now = new Date();
+    const heartbeatError = getHeartbeatError(progress?.watchSession, heartbeat, now);
+    if (heartbeatError) return { progress: null, error: heartbeatError };
+
+    video.progress[kidId] = applyHeartbeat(progress, progress.watchSession!, heartbeat, dayKey, now);
+    const session = video.progress[kidId].watchSession!;
+    this.saveVideo(video, userId);
+
+    const event = this.viewEvents.get(session.id);
+    if (event?.userId === userId) {
+      event.endedAt = now.toISOString();
+      event.watchedSeconds = Math.round(session.watchedSeconds);
+    }
+
+    return { progress: video.progress[kidId] };
+  }
+
+  private countedViews(userId: string): Owned<ViewEvent>[] {
+    return Array.from(this.viewEvents.values()).filter(e => e.userId === userId && !e.isRedo);
+  }
+
+  async getViewEvents(userId: string, filter: { videoId?: string; kidId?: string; limit?: number } = {}): Promise<ViewEvent[]> {
+    return Array.from(this.viewEvents.values())
+      .filter(e => e.userId === userId && (!filter.videoId || e.videoId === filter.videoId) && (!filter.kidId || e.kidId === filter.kidId))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, filter.limit ?? 100)
+      .map(stripOwner);
+  }
+
+  async getViewLimitStatus(videoId: string, userId: string): Promise<ViewLimitStatus[] | null> {
+    const video = await this.getVideo(videoId, userId);
+    if (!video) return null;
+    const folder = video.folderId ? await this.getFolder(video.folderId, userId) : undefined;
+    const { viewLimit } = await this.getFamilySettings(userId);
+    const limit = getEffectiveViewLimit(video, folder, viewLimit);
+
+    const views = new Map<string, number>();
+    for (const event of this.countedViews(userId)) {
+      if (event.videoId === videoId) views.set(event.kidId, (views.get(event.kidId) ?? 0) + 1);
+    }
+
+    return Object.keys(video.assigned).filter(kidId => video.assigned[kidId]).map(kidId => {
+      const used = views.get(kidId) ?? 0;
+      return { kidId, views: used, limit, remaining: limit === null ? null : Math.max(0, limit - used) };
+    });
+  }
+
+  async getViewCountsForKid(kidId: string, userId: string): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const event of this.countedViews(userId)) {
+      if (event.kidId === kidId) counts[event.videoId] = (counts[event.videoId] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  async getWatchTimeByDay(kidId: string, userId: string): Promise<Record<string, number>> {
+    const totals: Record<string, number> = {};
+    for (const video of this.allVideos().filter(v => v.userId === userId)) {
+      const daily = video.progress[kidId]?.dailyWatchTime || {};
+      for (const [day, seconds] of Object.entries(daily)) {
+        totals[day] = (totals[day] || 0) + seconds;
+      }
+    }
+    return totals;
+  }
+
+  async setVideoMetadata(videoId: string, metadata: VideoMetadata | null, fetchedAt: Date): Promise<void> {
+    const video = this.videos.get(videoId) ?? this.trashedVideos.get(videoId)?.item;
+    if (!video) return;
+    if (metadata) this.replaceVideo({ ...video, ...metadata });
+    this.metadataFetchedAt.set(videoId, fetchedAt);
+  }
+
+  async getVideosForMetadataRefresh(fetchedBefore: Date, limit: number): Promise<{ id: string; platform: VideoPlatform; ytId: string }[]> {
+    const fetchedAt = (v: Video) => this.metadataFetchedAt.get(v.id)?.getTime() ?? 0;
+    return Array.from(this.videos.values())
+      .filter(v => fetchedAt(v) < fetchedBefore.getTime())
+      .sort((a, b) => fetchedAt(a) - fetchedAt(b))
+      .slice(0, limit)
+      .map(v => ({ id: v.id, platform: v.platform, ytId: v.ytId }));
+  }
+
+  private getFamilyRow(userId: string): FamilyRow {
+    return this.familySettings.get(userId) ?? {
+      timezone: "UTC",
+      allowLegacyKidLinks: false,
+      viewLimit: MAX_VIDEO_VIEWS,
+      pinHash: null,
+      failedAttempts: 0,
+      lockedUntil: null,
+    };
+  }
+
+  async getFamilySettings(userId: string): Promise<FamilySettings> {
+    const { timezone, allowLegacyKidLinks, viewLimit } = this.getFamilyRow(userId);
+    return { timezone, allowLegacyKidLinks, viewLimit };
+  }
+
+  async updateFamilySettings(userId: string, updates: UpdateFamilySettings): Promise<FamilySettings> {
+    const row = { ...this.getFamilyRow(userId), ...updates };
+    this.familySettings.set(userId, row);
+    return this.getFamilySettings(userId);
+  }
+
+  async getParentPinState(userId: string): Promise<ParentPinState> {
+    const { pinHash, failedAttempts, lockedUntil } = this.getFamilyRow(userId);
+    return { pinHash, failedAttempts, lockedUntil };
+  }
+
+  async updateParentPinState(userId: string, updates: Partial<ParentPinState>): Promise<void> {
+    const row = this.getFamilyRow(userId);
+    if (updates.pinHash !== undefined) row.pinHash = updates.pinHash;
+    if (updates.failedAttempts !== undefined) row.failedAttempts = updates.failedAttempts;
+    if (updates.lockedUntil !== undefined) row.lockedUntil = updates.lockedUntil;
+    this.familySettings.set(userId, row);
+  }
+
+  async countParentPinAttempt(userId: string, now: Date, policy: PinLockoutPolicy): Promise<Omit<ParentPinState, "pinHash"> | null> {
+    const row = this.getFamilyRow(userId);
+    if (row.lockedUntil && row.lockedUntil > now) return null;
+    row.failedAttempts++;
+    row.lockedUntil = row.failedAttempts % policy.maxAttempts === 0
+      ? new Date(now.getTime() + getPinLockoutMs(row.failedAttempts, policy))
+      : null;
+    this.familySettings.set(userId, row);
+    return { failedAttempts: row.failedAttempts, lockedUntil: row.lockedUntil };
+  }
+
+  // Like the kid_screen_time primary key, rows are keyed by kid alone
+  private getScreenTimeRow(kidId: string, userId: string): KidScreenTime | undefined {
+    const row = this.screenTime.get(kidId);
+    return row?.userId === userId ? row : undefined;
+  }
+
+  private upsertScreenTime(kidId: string, userId: string, updates: Partial<KidScreenTime>): void {
+    const row = this.screenTime.get(kidId) ?? { userId, weekdayMinutes: null, weekendMinutes: null, viewingWindows: [], overrideExpiresAt: null };
+    this.screenTime.set(kidId, { ...row, ...structuredClone(updates) });
+  }
+
+  async getScreenTimeLimit(kidId: string, userId: string): Promise<ScreenTimeLimit> {
+    const row = this.getScreenTimeRow(kidId, userId);
+    return { weekdayMinutes: row?.weekdayMinutes ?? null, weekendMinutes: row?.weekendMinutes ?? null };
+  }
+
+  async setScreenTimeLimit(kidId: string, userId: string, limit: ScreenTimeLimit): Promise<ScreenTimeLimit> {
+    this.upsertScreenTime(kidId, userId, limit);
+    return limit;
+  }
+
+  async getViewingWindows(kidId: string, userId: string): Promise<ViewingWindow[]> {
+    return structuredClone(this.getScreenTimeRow(kidId, userId)?.viewingWindows ?? []);
+  }
+
+  async setViewingWindows(kidId: string, userId: string, windows: ViewingWindow[]): Promise<ViewingWindow[]> {
+    this.upsertScreenTime(kidId, userId, { viewingWindows: windows });
+    return windows;
+  }
+
+  async getScreenTimeOverride(kidId: string, userId: string): Promise<Date | null> {
+    return this.getScreenTimeRow(kidId, userId)?.overrideExpiresAt ?? null;
+  }
+
+  async setScreenTimeOverride(kidId: string, userId: string, expiresAt: Date | null): Promise<void> {
+    this.upsertScreenTime(kidId, userId, { overrideExpiresAt: expiresAt });
+  }
+
+  async getKidAccessTokens(userId: string, kidId?: string): Promise<KidAccessToken[]> {
+    return Array.from(this.accessTokens.values())
+      .filter(t => t.userId === userId && (!kidId || t.kidId === kidId))
+      .map(({ tokenHash: _hash, ...token }) => stripOwner(token));
+  }
+
+  async getKidAccessTokenForAuth(id: string): Promise<(KidAccessToken & { userId: string; tokenHash: string }) | undefined> {
+    const token = this.accessTokens.get(id);
+    return token && structuredClone(token);
+  }
+
+  async createKidAccessToken(token: { id: string; kidId: string; name: string; tokenHash: string }, userId: string): Promise<KidAccessToken> {
+    const created: KidAccessToken = { id: token.id, kidId: token.kidId, name: token.name, createdAt: new Date().toISOString(), lastUsedAt: null, revokedAt: null };
+    this.accessTokens.set(token.id, { ...created, userId, tokenHash: token.tokenHash });
+    return created;
+  }
+
+  async renameKidAccessToken(id: string, userId: string, name: string): Promise<KidAccessToken | null> {
+    const token = this.accessTokens.get(id);
+    if (token?.userId !== userId) return null;
+    token.name = name;
+    const { tokenHash: _hash, ...rest } = token;
+    return stripOwner(rest);
+  }
+
+  async revokeKidAccessToken(id: string, userId: string): Promise<boolean> {
+    const token = this.accessTokens.get(id);
+    if (token?.userId !== userId || token.revokedAt) return false;
+    token.revokedAt = new Date().toISOString();
+    return true;
+  }
+
+  async touchKidAccessToken(id: string): Promise<void> {
+    const token = this.accessTokens.get(id);
+    if (token) token.lastUsedAt = new Date().toISOString();
+  }
+
+  async createRecording(recording: StoredRecording & { storageKey: string }, userId: string): Promise<StoredRecording> {
+    const stored = { ...recording, createdAt: new Date().toISOString() };
+    this.recordings.set(recording.id, { ...stored, userId });
+    const { storageKey: _key, ...rest } = stored;
+    return rest;
+  }
+
+  async getRecording(id: string, userId: string): Promise<(StoredRecording & { storageKey: string }) | undefined> {
+    const recording = this.recordings.get(id);
+    return recording?.userId === userId ? stripOwner(recording) : undefined;
+  }
+
+  async getRecordingUsage(userId: string): Promise<number> {
+    return Array.from(this.recordings.values()).filter(r => r.userId === userId).reduce((sum, r) => sum + r.sizeBytes, 0);
+  }
+
+  async getRecordings(userId: string): Promise<(StoredRecording & { storageKey: string })[]> {
+    return Array.from(this.recordings.values()).filter(r => r.userId === userId).map(stripOwner);
+  }
+  async purgeUnattachedRecordings(createdBefore: Date): Promise<string[]> {
+    const attached = new Set([
+      ...this.allVideos().flatMap(v => Object.values(v.progress).flatMap(getProgressAudioIds)),
+      ...Array.from(this.merges.values()).flatMap(m => getSnapshotAudioIds(m.snapshot)),
+    ]);
+    const storageKeys: string[] = [];
+    for (const recording of Array.from(this.recordings.values())) {
+      if (recording.createdAt && new Date(recording.createdAt) < createdBefore && !attached.has(recording.id)) {
+        this.recordings.delete(recording.id);
+        storageKeys.push(recording.storageKey);
+      }
+    }
+    return storageKeys;
+  }
+
+
+  async getTrash(userId: string): Promise<Trash> {
+    return {
+      kids: this.trashOf(this.trashedKids, userId),
+      folders: this.trashOf(this.trashedFolders, userId),
+      videos: this.trashOf(this.trashedVideos, userId),
+    };
+  }
+
+  async purgeTrash(deletedBefore: Date): Promise<TrashPurgeResult> {
+    const videos = takeExpired(this.trashedVideos, deletedBefore);
+    const videoIds = new Set(videos.map(v => v.id));
+    const audioIds = new Set(videos.flatMap(v => Object.values(v.progress).flatMap(getProgressAudioIds)));
+
+    const folders = takeExpired(this.trashedFolders, deletedBefore);
+    const folderIds = new Set(folders.map(f => f.id));
+    const kids = takeExpired(this.trashedKids, deletedBefore);
+    const kidIds = new Set(kids.map(k => k.id));
+
+    for (const folder of [...Array.from(this.folders.values()), ...Array.from(this.trashedFolders.values()).map(t => t.item)]) {
+      if (folder.parentId && folderIds.has(folder.parentId)) folder.parentId = null;
+    }
+    for (const video of this.allVideos()) {
+      if (video.folderId && folderIds.has(video.folderId)) video.folderId = null;
+      for (const kidId of Array.from(kidIds)) {
+        delete video.assigned[kidId];
+        delete video.progress[kidId];
+      }
+    }
+    for (const event of Array.from(this.viewEvents.values())) {
+      if (videoIds.has(event.videoId) || kidIds.has(event.kidId)) this.viewEvents.delete(event.id);
+    }
+    for (const kidId of Array.from(kidIds)) this.screenTime.delete(kidId);
+    for (const token of Array.from(this.accessTokens.values())) {
+      if (kidIds.has(token.kidId)) this.accessTokens.delete(token.id);
+    }
+
+    const recordingKeys: string[] = [];
+    for (const recording of Array.from(this.recordings.values())) {
+      if (audioIds.has(recording.id) || (recording.kidId && kidIds.has(recording.kidId))) {
+        this.recordings.delete(recording.id);
+        recordingKeys.push(recording.storageKey);
+      }
+    }
+
+    return {
+      kids: kidIds.size,
+      folders: folderIds.size,
+      videos: videoIds.size,
+      byUser: getPurgeCountsByUser({ kids, folders, videos }),
+      recordingKeys,
+    };
+  }
+
+  async importFamilyData(data: FamilyData, userId: string): Promise<void> {
+    for (const kid of data.kids) this.kids.set(kid.id, { ...structuredClone(kid), userId });
+    for (const folder of data.folders) this.folders.set(folder.id, { unlockMode: "strict", ...structuredClone(folder), userId });
+    for (const video of data.videos) {
+      const existing = this.videos.get(video.id);
+      if (existing?.userId === userId) {
+        Object.assign(existing.assigned, structuredClone(video.assigned));
+        Object.assign(existing.progress, structuredClone(video.progress));
+      } else if (!existing) {
+        this.saveVideo(video, userId);
+      }
+    }
+  }
+
+  async getAccountDeletion(userId: string): Promise<AccountDeletionState | undefined> {
+    const state = this.accountDeletions.get(userId);
+    return state && structuredClone(state);
+  }
+
+  async saveAccountDeletion(userId: string, state: AccountDeletionState): Promise<void> {
+    this.accountDeletions.set(userId, structuredClone(state));
+  }
+
+  async cancelAccountDeletion(userId: string): Promise<boolean> {
+    return this.accountDeletions.delete(userId);
+  }
+
+  async getDueAccountDeletions(now: Date): Promise<string[]> {
+    return Array.from(this.accountDeletions.entries())
+      .filter(([, state]) => state.scheduledFor && state.scheduledFor <= now)
+      .map(([userId]) => userId);
+  }
+
+  async detachSubscribers(masterUserId: string): Promise<number> {
+    const masterFolders = [...Array.from(this.folders.values()), ...Array.from(this.trashedFolders.values()).map(t => t.item)]
+      .filter(f => f.userId === masterUserId);
+    const names = new Map(masterFolders.map(f => [f.id, f.name]));
+    const subscribers = new Set<string>();
+    for (const sub of Array.from(this.subscriptions.values())) {
+      const name = names.get(sub.masterFolderId);
+      if (!name) continue;
+      const localFolder = this.findLocalGlobalFolder(sub.userId, sub.masterFolderId);
+      if (localFolder) localFolder.name = name;
+      this.subscriptions.delete(sub.id);
+      subscribers.add(sub.userId);
+    }
+    return subscribers.size;
+  }
+
+  async deleteAccountData(userId: string): Promise<{ recordingKeys: string[] }> {
+    const owned = <T extends { userId: string }>(map: Map<string, T>) => {
+      for (const [id, item] of Array.from(map.entries())) {
+        if (item.userId === userId) map.delete(id);
+      }
+    };
+    const trashed = <T>(map: Map<string, Trashed<T>>) => {
+      for (const [id, t] of Array.from(map.entries())) {
+        if (t.item.userId === userId) map.delete(id);
+      }
+    };
+
+    const recordingKeys = Array.from(this.recordings.values()).filter(r => r.userId === userId).map(r => r.storageKey);
+    owned(this.recordings);
+    owned(this.kids);
+    owned(this.folders);
+    owned(this.videos);
+    trashed(this.trashedKids);
+    trashed(this.trashedFolders);
+    trashed(this.trashedVideos);
+    owned(this.subscriptions);
+    owned(this.screenTime);
+    owned(this.accessTokens);
+    owned(this.viewEvents);
+    owned(this.merges);
+    this.feedback = this.feedback.filter(f => f.userId !== userId);
+    this.activity = this.activity.filter(e => e.userId !== userId);
+    this.familySettings.delete(userId);
+    this.accountDeletions.delete(userId);
+    return { recordingKeys };
+  }
+
+  async logActivity(userId: string, event: NewActivityEvent): Promise<ActivityEvent> {
+    const created = newActivityEvent(event);
+    this.activity.push({ ...structuredClone(created), userId });
+    return created;
+  }
+
+  async getActivity(userId: string, query: ActivityQuery): Promise<ActivityPage> {
+    const newestFirst = (a: ActivityEvent, b: ActivityEvent) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id);
+    let matching = this.activity
+      .filter(e => e.userId === userId
+        && (!query.type || e.type === query.type)
+        && (!query.actor || e.actor === query.actor)
+        && (!query.kidId || e.kidId === query.kidId)
+        && (!query.videoId || e.videoId === query.videoId)
+        && (!query.since || e.createdAt >= new Date(query.since).toISOString())
+        && (!query.until || e.createdAt < new Date(query.until).toISOString()))
+      .sort(newestFirst);
+    if (query.cursor) {
+      const after = this.activity.find(e => e.id === query.cursor && e.userId === userId);
+      if (!after) return { events: [], nextCursor: null };
+      matching = matching.filter(e => newestFirst(after, e) < 0);
+    }
+
+    const events = matching.slice(0, query.limit).map(stripOwner);
+    return { events, nextCursor: matching.length > query.limit ? events[events.length - 1].id : null };
+  }
+
+  async createFeedback(feedback: InsertFeedback, userId: string): Promise<Feedback> {
+    const created: Feedback = {
+      id: `fb_${Date.now()}_${randomUUID().slice(0, 8)}`,
+      userId,
+      type: feedback.type as Feedback["type"],
+      content: feedback.content,
+      createdAt: new Date().toISOString(),
+    };
+    this.feedback.push(structuredClone(created));
+    return created;
+  }
+
+  async getBadgeCountForKid(kidId: string, userId: string): Promise<number> {
+    return this.videosOf(userId).filter(v => v.assigned?.[kidId] && !v.progress?.[kidId]?.watched).length;
+  }
+
+  async getBadgeCountForParent(userId: string): Promise<number> {
+    let count = 0;
+    for (const video of this.videosOf(userId)) {
+      for (const prog of Object.values(video.progress || {})) {
+        if (prog?.archivedAt) continue;
+        if ((prog?.watched && prog?.parentReviewed === false) || prog?.awaitingSignoff) {
+          count++;
+        }
+      }
+    }
+    return count;
+  }
+
+  async clearParentBadge(userId: string): Promise<void> {
+    for (const video of this.videosOf(userId)) {
+      for (const prog of Object.values(video.progress || {})) {
+        if (prog?.watched && prog?.parentReviewed === false) prog.parentReviewed = true;
+      }
+    }
+  }
+
+  async getKidById(kidId: string): Promise<(Kid & { userId: string }) | undefined> {
+    const kid = this.kids.get(kidId);
+    return kid && structuredClone(kid);
+  }
+
+  async getVideosByOwner(userId: string): Promise<Video[]> {
+    return this.getVideos(userId);
+  }
+
+  async getFoldersByOwner(userId: string): Promise<Folder[]> {
+    return this.getFolders(userId);
+  }
+
+  async markVideoWatchedPublic(videoId: string, kidId: string, voiceRecording: VoiceRecording | undefined, ownerUserId: string, origin: ViewOrigin): Promise<{ video: Video | null; error?: string }> {
+    return this.markVideoWatched(videoId, kidId, voiceRecording, ownerUserId, origin);
+  }
+
+  async getGlobalFolders(masterUserId: string): Promise<Folder[]> {
+    return (await this.getFolders(masterUserId)).filter(f => !f.name.startsWith("__global_"));
+  }
+
+  async getGlobalFoldersWithCounts(masterUserId: string): Promise<(Folder & { videoCount: number })[]> {
+    const folders = await this.getGlobalFolders(masterUserId);
+    const videos = this.videosOf(masterUserId);
+    return folders.map(f => ({ ...f, videoCount: videos.filter(v => v.folderId === f.id).length }));
+  }
+
+  async getGlobalVideos(masterUserId: string, folderId: string): Promise<Video[]> {
+    return (await this.getVideos(masterUserId)).filter(v => v.folderId === folderId);
+  }
+
+  private findSubscription(userId: string, masterFolderId: string): GlobalSubscription | undefined {
+    return Array.from(this.subscriptions.values()).find(s => s.userId === userId && s.masterFolderId === masterFolderId);
+  }
+
+  private findLocalGlobalFolder(userId: string, masterFolderId: string): Owned<Folder> | undefined {
+    return Array.from(this.folders.values()).find(f => f.userId === userId && f.name === `__global_${masterFolderId}`);
+  }
+
+  async getSubscriptions(userId: string): Promise<GlobalSubscription[]> {
+    return Array.from(this.subscriptions.values()).filter(s => s.userId === userId).map(s => structuredClone(s));
+  }
+
+  async subscribe(userId: string, masterFolderId: string, kidIds: string[], masterUserId: string): Promise<GlobalSubscription> {
+    const existing = this.findSubscription(userId, masterFolderId);
+    const sub: GlobalSubscription = existing
+      ? { ...existing, kidIds: [...kidIds] }
+      : { id: `gsub_${Date.now()}_${randomUUID().slice(0, 8)}`, userId, masterFolderId, kidIds: [...kidIds], createdAt: new Date().toISOString() };
+    this.subscriptions.set(sub.id, sub);
+
+    await this.syncSubscription(userId, masterFolderId, masterUserId);
+    return structuredClone(sub);
+  }
+
+  private removeSyncedFolder(folderId: string, userId: string): SyncedFolderRemoval {
+    const videos = this.allVideos().filter(v => v.userId === userId && v.folderId === folderId);
+    const videoIds = new Set(videos.map(v => v.id));
+    const audioIds = new Set(videos.flatMap(v => Object.values(v.progress).flatMap(getProgressAudioIds)));
+    for (const id of Array.from(videoIds)) {
+      this.videos.delete(id);
+      this.trashedVideos.delete(id);
+    }
+    for (const event of Array.from(this.viewEvents.values())) {
+      if (videoIds.has(event.videoId)) this.viewEvents.delete(event.id);
+    }
+    const recordingKeys: string[] = [];
+    for (const recording of Array.from(this.recordings.values())) {
+      if (recording.userId === userId && audioIds.has(recording.id)) {
+        this.recordings.delete(recording.id);
+        recordingKeys.push(recording.storageKey);
+      }
+    }
+    this.folders.delete(folderId);
+    return { videoIds: Array.from(videoIds), recordingKeys };
+  }
+
+  async unsubscribe(userId: string, masterFolderId: string): Promise<SyncedFolderRemoval | null> {
+    const sub = this.findSubscription(userId, masterFolderId);
+    if (!sub) return null;
+
+    const localFolder = this.findLocalGlobalFolder(userId, masterFolderId);
+    const removal = localFolder ? this.removeSyncedFolder(localFolder.id, userId) : { videoIds: [], recordingKeys: [] };
+
+    this.subscriptions.delete(sub.id);
+    return removal;
+  }
+
+  async syncSubscription(userId: string, masterFolderId: string, masterUserId: string): Promise<void> {
+    const sub = this.findSubscription(userId, masterFolderId);
+    if (!sub) return;
+
+    const allKids = await this.getKids(userId);
+    const targetKids = sub.kidIds.length > 0 ? allKids.filter(k => sub.kidIds.includes(k.id)) : allKids;
+
+    const masterFolder = await this.getFolder(masterFolderId, masterUserId);
+    if (!masterFolder) return;
+
+    const folderPolicy = masterFolder.completionPolicy ?? null;
+    let localFolder = this.findLocalGlobalFolder(userId, masterFolderId);
+    if (!localFolder) {
+      localFolder = { id: `folder_${Date.now()}_${randomUUID().slice(0, 8)}`, userId, name: `__global_${masterFolderId}`, unlockMode: "strict", viewLimit: null, completionPolicy: null };
+      this.folders.set(localFolder.id, localFolder);
+    }
+    localFolder.completionPolicy = structuredClone(folderPolicy);
+
+    const masterVideos = await this.getGlobalVideos(masterUserId, masterFolderId);
+    const existingByYtId = new Map(this.videosOf(userId).filter(v => v.folderId === localFolder!.id).map(v => [v.ytId, v]));
+
+    for (const mv of masterVideos) {
+      const local = existingByYtId.get(mv.ytId);
+      if (local) {
+        local.completionPolicy = mv.completionPolicy ?? null;
+        local.quiz = mv.quiz ?? null;
+        local.position = mv.position ?? null;
+        Object.assign(local, getVideoMetadata(mv));
+        continue;
+      }
+
+      const assigned: Record<string, boolean> = {};
+      const progress: Record<string, VideoProgress> = {};
+      for (const kid of targetKids) {
+        assigned[kid.id] = true;
+        progress[kid.id] = { watched: false };
+      }
+
+      const id = `vid_${Date.now()}_${randomUUID().slice(0, 8)}_g`;
+      this.saveVideo({
+        id,
+        url: mv.url,
+        ytId: mv.ytId,
+        platform: mv.platform,
+        folderId: localFolder.id,
+        priority: mv.priority,
+        assigned,
+        progress,
+        totalViews: 0,
+        completionPolicy: mv.completionPolicy ?? null,
+        quiz: mv.quiz ?? null,
+        viewLimit: null,
+        position: mv.position ?? null,
+        ...getVideoMetadata(mv),
+      }, userId);
+      await this.logActivity(userId, { type: "video_added", actor: "sync", videoId: id, details: { url: mv.url, masterFolderId } });
+    }
+  }
+
+  async syncAllSubscriptions(userId: string, masterUserId: string): Promise<void> {
+    for (const sub of await this.getSubscriptions(userId)) {
+      await this.syncSubscription(userId, sub.masterFolderId, masterUserId);
+    }
+  }
+
+  async cleanupGlobalData(userId: string): Promise<SyncedFolderRemoval> {
+    const globalFolders = Array.from(this.folders.values()).filter(f => f.userId === userId && f.name.startsWith("__global_"));
+    const removal: SyncedFolderRemoval = { videoIds: [], recordingKeys: [] };
+    for (const gf of globalFolders) {
+      const { videoIds, recordingKeys } = this.removeSyncedFolder(gf.id, userId);
+      removal.videoIds.push(...videoIds);
+      removal.recordingKeys.push(...recordingKeys);
+    }
+
+    for (const sub of Array.from(this.subscriptions.values())) {
+      if (sub.userId === userId) this.subscriptions.delete(sub.id);
+    }
+    return removal;
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage: IStorage = isMemoryBackend ? new MemStorage() : new DatabaseStorage();
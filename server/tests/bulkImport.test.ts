@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { BulkImportRow, Folder, Video } from "@shared/schema";
+import { addVideo, createKid, startTestServer, type TestServer } from "./testServer";
+
+const CSV = [
+  "url,playlist,priority,kids",
+  "https://www.youtube.com/watch?v=bulk0000001,Space,2,Ada",
+  "https://www.youtube.com/watch?v=bulk0000002,Space,,",
+  "https://example.com/not-a-video,,,",
+  "https://www.youtube.com/watch?v=bulk0000003,,12,",
+  "https://www.youtube.com/watch?v=bulk0000004,,,Nobody",
+].join("\n");
+
+const summarize = (rows: BulkImportRow[]) => rows.map(r => [r.line, r.status]);
+
+describe("bulk video import", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it("reports each row of a dry run without adding anything", async () => {
+    const parent = server.as("bulk-dry-run");
+    await createKid(parent, "Ada");
+
+    const report = await parent.post("/api/videos/import", { text: CSV, dryRun: true });
+    assert.equal(report.status, 200);
+    assert.deepEqual(summarize(report.body.rows), [[2, "added"], [3, "added"], [4, "invalid"], [5, "invalid"], [6, "invalid"]]);
+    assert.deepEqual(report.body.createdPlaylists, ["Space"]);
+    assert.deepEqual((await parent.get("/api/videos")).body, []);
+    assert.deepEqual((await parent.get("/api/folders")).body, []);
+  });
+
+  it("adds the valid rows into their playlists, for the named kids", async () => {
+    const parent = server.as("bulk-import");
+    const ada = await createKid(parent, "Ada");
+    await createKid(parent, "Bea");
+
+    const report = await parent.post("/api/videos/import", { text: CSV });
+    assert.equal(report.status, 201);
+    assert.deepEqual(report.body.counts, { added: 2, duplicate: 0, invalid: 3, unresolved: 0 });
+
+    const [space]: Folder[] = (await parent.get("/api/folders")).body;
+    const videos: Video[] = (await parent.get("/api/videos")).body;
+    const first = videos.find(v => v.ytId === "bulk0000001")!;
+    assert.equal(space.name, "Space");
+    assert.ok(videos.every(v => v.folderId === space.id));
+    assert.equal(first.priority, 2);
+    assert.deepEqual(Object.keys(first.assigned).filter(id => first.assigned[id]), [ada.id]);
+  });
+
+  it("reports links already in the library or earlier in the paste as duplicates", async () => {
+    const parent = server.as("bulk-duplicates");
+    const existing = await addVideo(parent);
+
+    const text = `${existing.url}\nhttps://youtu.be/bulk0000005 https://www.youtube.com/watch?v=bulk0000005`;
+    const report = await parent.post("/api/videos/import", { text });
+    assert.deepEqual(summarize(report.body.rows), [[1, "duplicate"], [2, "added"], [2, "duplicate"]]);
+    assert.equal(report.body.rows[0].videoId, existing.id);
+    assert.equal((await parent.get("/api/videos")).body.length, 2);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { FAMILY_ARCHIVE_MEDIA_TYPE, type Kid, type Video } from "@shared/schema";
+import { addVideo, createFolder, createKid, startTestServer, type ApiClient, type TestServer } from "./testServer";
+
+const AUDIO = Buffer.from("kid's answer");
+
+function importArchive(parent: ApiClient, archive: string | Buffer, mode = "merge") {
+  return parent.request("POST", `/api/family/import?mode=${mode}`, archive, { "Content-Type": FAMILY_ARCHIVE_MEDIA_TYPE });
+}
+
+// A kid who has completed a video with a voice recording
+async function createFamily(parent: ApiClient): Promise<{ kid: Kid; video: Video }> {
+  const kid = await createKid(parent, "Ada");
+  const folder = await createFolder(parent, { name: "Science", completionPolicy: { type: "voice" } });
+  const video = await addVideo(parent, { folderId: folder.id });
+  const recording = await parent.request("POST", `/api/recordings?kidId=${kid.id}`, AUDIO, { "Content-Type": "audio/webm" });
+  await parent.post(`/api/videos/${video.id}/watched/${kid.id}`, { voiceRecording: { recordedAt: new Date().toISOString(), duration: 2, audioId: recording.body.id } });
+  return { kid, video };
+}
+
+describe("family archive", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it("exports one line for the family and one per recording", async () => {
+    const parent = server.as("archive-export");
+    await createFamily(parent);
+
+    const exported = await parent.get("/api/family/export");
+    assert.equal(exported.status, 200);
+    assert.equal(exported.headers.get("content-type"), FAMILY_ARCHIVE_MEDIA_TYPE);
+    const [header, recording, ...rest] = exported.body.toString().trimEnd().split("\n").map((line: string) => JSON.parse(line));
+    assert.deepEqual([header.kids.length, header.folders.length, header.videos.length, header.recordings.length, rest.length], [1, 1, 1, 1, 0]);
+    assert.equal(Buffer.from(recording.data, "base64").toString(), AUDIO.toString());
+  });
+
+  it("imports an export into another family under new IDs", async () => {
+    const source = server.as("archive-source");
+    const { kid, video } = await createFamily(source);
+    const archive = (await source.get("/api/family/export")).body;
+
+    const target = server.as("archive-target");
+    const imported = await importArchive(target, archive);
+    assert.equal(imported.status, 200);
+    assert.deepEqual(imported.body, { kids: 1, folders: 1, videos: 1, recordings: 1, subscriptions: 0 });
+
+    const [importedKid]: Kid[] = (await target.get("/api/kids")).body;
+    const [importedVideo]: Video[] = (await target.get("/api/videos")).body;
+    assert.notEqual(importedKid.id, kid.id);
+    assert.notEqual(importedVideo.id, video.id);
+    const progress = importedVideo.progress[importedKid.id];
+    assert.equal(progress.watched, true);
+    assert.deepEqual((await target.get(`/api/recordings/${progress.voiceRecordings![0].audioId}`)).body, AUDIO);
+  });
+
+  it("leaves the family alone when a replace import is rejected", async () => {
+    const parent = server.as("archive-replace");
+    const { kid } = await createFamily(parent);
+    const archive: string = (await parent.get("/api/family/export")).body.toString();
+    const broken = archive.replace(/\n[^\n]*\n$/, "\n{\"id\":\"missing\"}\n");
+
+    assert.equal((await importArchive(parent, broken, "replace")).status, 400);
+    assert.deepEqual((await parent.get("/api/kids")).body.map((k: Kid) => k.id), [kid.id]);
+    assert.equal((await parent.get("/api/videos")).body.length, 1);
+  });
+
+  it("only takes archives sent as the archive media type", async () => {
+    const parent = server.as("archive-media-type");
+    assert.equal((await parent.post("/api/family/import", { version: 2 })).status, 415);
+  });
+});
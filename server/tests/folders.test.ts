@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { FOLDER_MAX_DEPTH, type Folder, type FolderTreeNode } from "@shared/schema";
+import { createFolder, createKid, startTestServer, type ApiClient, type TestServer } from "./testServer";
+
+async function getChildNames(parent: ApiClient, parentId: string | null): Promise<string[]> {
+  const folders: Folder[] = (await parent.get("/api/folders")).body;
+  return folders.filter(f => (f.parentId ?? null) === parentId).map(f => f.name);
+}
+
+describe("nested folders", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it("limits nesting depth", async () => {
+    const parent = server.as("folders-depth");
+    let parentId: string | null = null;
+    for (let depth = 1; depth <= FOLDER_MAX_DEPTH; depth++) {
+      parentId = (await createFolder(parent, { name: `Level ${depth}`, parentId })).id;
+    }
+
+    const tooDeep = await parent.post("/api/folders", { name: "Too deep", parentId });
+    assert.equal(tooDeep.status, 400);
+    assert.equal(tooDeep.body.error, `Folders can only be nested ${FOLDER_MAX_DEPTH} levels deep`);
+  });
+
+  it("won't move a folder into its own sub-folder", async () => {
+    const parent = server.as("folders-cycle");
+    const outer = await createFolder(parent, { name: "Science" });
+    const inner = await createFolder(parent, { name: "Space", parentId: outer.id });
+
+    assert.equal((await parent.post(`/api/folders/${outer.id}/move`, { parentId: inner.id })).status, 400);
+    assert.equal((await parent.post(`/api/folders/${outer.id}/move`, { parentId: outer.id })).status, 400);
+    assert.equal((await parent.post(`/api/folders/${inner.id}/move`, { parentId: null })).status, 200);
+    assert.deepEqual(await getChildNames(parent, null), ["Science", "Space"]);
+  });
+
+  it("only reorders one parent's sub-folders at a time", async () => {
+    const parent = server.as("folders-reorder");
+    const outer = await createFolder(parent, { name: "Science" });
+    const a = await createFolder(parent, { name: "Space", parentId: outer.id });
+    const b = await createFolder(parent, { name: "Oceans", parentId: outer.id });
+
+    assert.equal((await parent.put("/api/folders/order", { ids: [outer.id, a.id] })).status, 400);
+    assert.equal((await parent.put(`/api/folders/${outer.id}/children/order`, { ids: [b.id, a.id] })).status, 200);
+    assert.deepEqual(await getChildNames(parent, outer.id), ["Oceans", "Space"]);
+  });
+
+  it("moves a deleted folder's sub-folders after its siblings", async () => {
+    const parent = server.as("folders-move-up");
+    const root = await createFolder(parent, { name: "Science" });
+    const [space, oceans, animals] = [
+      await createFolder(parent, { name: "Space", parentId: root.id }),
+      await createFolder(parent, { name: "Oceans", parentId: root.id }),
+      await createFolder(parent, { name: "Animals", parentId: root.id }),
+    ];
+    const planets = await createFolder(parent, { name: "Planets", parentId: oceans.id });
+    const stars = await createFolder(parent, { name: "Stars", parentId: oceans.id });
+    await parent.put(`/api/folders/${root.id}/children/order`, { ids: [space.id, oceans.id, animals.id] });
+    await parent.put(`/api/folders/${oceans.id}/children/order`, { ids: [stars.id, planets.id] });
+
+    assert.equal((await parent.delete(`/api/folders/${oceans.id}?children=move_up`)).status, 204);
+    assert.deepEqual(await getChildNames(parent, root.id), ["Space", "Animals", "Stars", "Planets"]);
+
+    assert.equal((await parent.delete(`/api/folders/${root.id}`)).status, 204);
+    assert.deepEqual((await parent.get("/api/folders")).body, []);
+  });
+
+  it("shows kid mode the folder tree", async () => {
+    const parent = server.as("folders-kid-tree");
+    const kid = await createKid(parent, "Ada");
+    const { token } = (await parent.post(`/api/kids/${kid.id}/access-tokens`, { name: "Tablet" })).body;
+    const outer = await createFolder(parent, { name: "Science" });
+    await createFolder(parent, { name: "Space", parentId: outer.id });
+
+    const tree: FolderTreeNode[] = (await server.anonymous().get(`/api/public/kid/${token}/folders/tree`)).body;
+    assert.deepEqual(tree.map(f => [f.name, f.children.map(c => c.name)]), [["Science", ["Space"]]]);
+  });
+});
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { PIN_MAX_ATTEMPTS } from "@shared/schema";
+import { createKid, startTestServer, type TestServer } from "./testServer";
+
+describe("parent PIN", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it("locks out after too many wrong PINs until the parent sets it again", async () => {
+    const parent = server.as("pin-lockout");
+    await parent.put("/api/family/pin", { pin: "1234" });
+
+    for (let attemptsLeft = PIN_MAX_ATTEMPTS - 1; attemptsLeft > 0; attemptsLeft--) {
+      const wrong = await parent.post("/api/family/pin/verify", { pin: "0000" });
+      assert.equal(wrong.status, 401);
+      assert.equal(wrong.body.attemptsLeft, attemptsLeft);
+    }
+    assert.equal((await parent.post("/api/family/pin/verify", { pin: "0000" })).status, 423);
+    assert.equal((await parent.post("/api/family/pin/verify", { pin: "1234" })).status, 423);
+
+    await parent.put("/api/family/pin", { pin: "1234" });
+    assert.deepEqual((await parent.post("/api/family/pin/verify", { pin: "1234" })).body, { verified: true, pinSet: true });
+  });
+
+  it("counts parallel guesses before checking them", async () => {
+    const parent = server.as("pin-parallel");
+    await parent.put("/api/family/pin", { pin: "1234" });
+
+    const guesses = await Promise.all(Array.from({ length: PIN_MAX_ATTEMPTS + 3 }, () => parent.post("/api/family/pin/verify", { pin: "0000" })));
+    assert.equal(guesses.filter(g => g.status === 401).length, PIN_MAX_ATTEMPTS - 1);
+    assert.equal((await parent.get("/api/family/pin")).body.failedAttempts, PIN_MAX_ATTEMPTS);
+  });
+
+  it("is checked from a kid device through its access token", async () => {
+    const parent = server.as("pin-kid-device");
+    const kid = await createKid(parent, "Ada");
+    const { token } = (await parent.post(`/api/kids/${kid.id}/access-tokens`, { name: "Tablet" })).body;
+    await parent.put("/api/family/pin", { pin: "1234" });
+    const device = server.anonymous();
+
+    assert.equal((await device.post(`/api/public/kid/${token}/verify-pin`, { pin: "0000" })).status, 401);
+    assert.equal((await device.post(`/api/public/kid/${token}/verify-pin`, { pin: "1234" })).status, 200);
+    // New families don't accept raw kid IDs
+    assert.equal((await device.post(`/api/public/kid/${kid.id}/verify-pin`, { pin: "1234" })).status, 404);
+  });
+});
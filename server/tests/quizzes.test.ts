@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { addVideo, createKid, startTestServer, type TestServer } from "./testServer";
+
+const QUIZ = {
+  questions: [{
+    id: "q1",
+    prompt: "Which planet is closest to the sun?",
+    choices: [{ id: "mercury", label: "Mercury" }, { id: "venus", label: "Venus" }],
+    correctChoiceId: "mercury",
+  }],
+  passingScore: 100,
+};
+
+describe("quizzes", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it("only uses up a view when an attempt passes", async () => {
+    const parent = server.as("quiz-views");
+    const kid = await createKid(parent, "Ada");
+    const video = await addVideo(parent);
+    await parent.patch(`/api/videos/${video.id}`, { completionPolicy: { type: "quiz" }, viewLimit: 1 });
+    assert.equal((await parent.put(`/api/videos/${video.id}/quiz`, QUIZ)).status, 200);
+
+    for (let i = 0; i < 3; i++) {
+      const failed = await parent.post(`/api/videos/${video.id}/quiz/${kid.id}`, { answers: { q1: "venus" } });
+      assert.equal(failed.status, 200);
+      assert.equal(failed.body.attempt.passed, false);
+    }
+    const passed = await parent.post(`/api/videos/${video.id}/quiz/${kid.id}`, { answers: { q1: "mercury" } });
+    assert.equal(passed.body.attempt.passed, true);
+    assert.equal(passed.body.video.progress[kid.id].watched, true);
+
+    const again = await parent.post(`/api/videos/${video.id}/quiz/${kid.id}`, { answers: { q1: "mercury" } });
+    assert.equal(again.status, 400);
+    assert.equal(again.body.error, "This video has reached the maximum number of views (1)");
+  });
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { Video } from "@shared/schema";
+import { addVideo, createFolder, createKid, startTestServer, type ApiClient, type TestServer } from "./testServer";
+
+// Read per upload, so it applies to the server started below
+process.env.RECORDING_QUOTA_MB = "1";
+
+const AUDIO = Buffer.from("not really opus, but the store doesn't look inside");
+
+function upload(parent: ApiClient, kidId: string, data: Buffer = AUDIO) {
+  return parent.request("POST", `/api/recordings?kidId=${kidId}`, data, { "Content-Type": "audio/webm;codecs=opus" });
+}
+
+describe("recordings", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it("streams an upload back whole or by byte range", async () => {
+    const parent = server.as("recordings-stream");
+    const kid = await createKid(parent, "Ada");
+    const recording = await upload(parent, kid.id);
+    assert.equal(recording.status, 201);
+    assert.equal(recording.body.mimeType, "audio/webm");
+
+    const whole = await parent.get(`/api/recordings/${recording.body.id}`);
+    assert.equal(whole.status, 200);
+    assert.deepEqual(whole.body, AUDIO);
+
+    const part = await parent.get(`/api/recordings/${recording.body.id}`, { Range: "bytes=4-9" });
+    assert.equal(part.status, 206);
+    assert.equal(part.headers.get("content-range"), `bytes 4-9/${AUDIO.length}`);
+    assert.deepEqual(part.body, AUDIO.subarray(4, 10));
+
+    const outside = await parent.get(`/api/recordings/${recording.body.id}`, { Range: `bytes=${AUDIO.length}-` });
+    assert.equal(outside.status, 416);
+  });
+
+  it("only streams recordings to their own family", async () => {
+    const parent = server.as("recordings-owner");
+    const kid = await createKid(parent, "Ada");
+    const recording = await upload(parent, kid.id);
+
+    assert.equal((await server.as("recordings-stranger").get(`/api/recordings/${recording.body.id}`)).status, 404);
+  });
+
+  it("keeps each family within its quota", async () => {
+    const parent = server.as("recordings-quota");
+    const kid = await createKid(parent, "Ada");
+    const chunk = Buffer.alloc(600 * 1024, 1);
+
+    assert.equal((await upload(parent, kid.id, chunk)).status, 201);
+    assert.equal((await upload(parent, kid.id, chunk)).status, 413);
+    assert.equal((await parent.get("/api/recordings/usage")).body.usedBytes, chunk.length);
+  });
+
+  it("keeps only a reference in progress, converting inline audio", async () => {
+    const parent = server.as("recordings-progress");
+    const kid = await createKid(parent, "Ada");
+    const folder = await createFolder(parent, { unlockMode: "off", completionPolicy: { type: "voice" } });
+    const uploaded = await addVideo(parent, { folderId: folder.id });
+    const inline = await addVideo(parent, { folderId: folder.id });
+    const recording = await upload(parent, kid.id);
+
+    const recordedAt = new Date().toISOString();
+    assert.equal((await parent.post(`/api/videos/${uploaded.id}/watched/${kid.id}`, { voiceRecording: { recordedAt, duration: 3, audioId: recording.body.id } })).status, 200);
+    const audioData = `data:audio/webm;base64,${AUDIO.toString("base64")}`;
+    assert.equal((await parent.post(`/api/videos/${inline.id}/watched/${kid.id}`, { voiceRecording: { recordedAt, duration: 3, audioData } })).status, 200);
+
+    const videos: Video[] = (await parent.get("/api/videos")).body;
+    const stored = [uploaded, inline].map(v => videos.find(video => video.id === v.id)!.progress[kid.id].voiceRecordings![0]);
+    assert.equal(stored[0].audioId, recording.body.id);
+    assert.ok(stored[1].audioId);
+    assert.ok(stored.every(r => r.audioData === undefined));
+    assert.deepEqual((await parent.get(`/api/recordings/${stored[1].audioId}`)).body, AUDIO);
+  });
+});
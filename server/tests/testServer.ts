@@ -0,0 +1,119 @@
+import { mkdtempSync, rmSync } from "fs";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import path from "path";
+import express, { type Express } from "express";
+import passport from "passport";
+import type { Folder, InsertFolder, InsertVideo, Kid, Video } from "@shared/schema";
+
+// API tests run the real routes on the memory backend, keep recordings in a scratch
+// directory and answer video lookups from (empty) local fixtures instead of the platforms.
+// The routes are imported only once these are set.
+const recordingsDir = mkdtempSync(path.join(tmpdir(), "kid-videos-test-"));
+process.env.STORAGE_BACKEND = "memory";
+process.env.METADATA_PROVIDER = "local";
+process.env.RECORDINGS_DIR = recordingsDir;
+process.env.KID_TOKEN_SECRET ??= "test-kid-token-secret";
+process.on("exit", () => rmSync(recordingsDir, { recursive: true, force: true }));
+
+export type ApiResponse = { status: number; headers: Headers; body: any };
+
+// Requests signed in as one parent, or anonymous (kid routes) with a null userId
+export class ApiClient {
+  constructor(private readonly baseUrl: string, private readonly userId: string | null) {}
+
+  // Objects are sent as JSON; strings and buffers as they are, with the given headers
+  async request(method: string, url: string, body?: unknown, headers: Record<string, string> = {}): Promise<ApiResponse> {
+    const raw = typeof body === "string" || body instanceof Uint8Array;
+    const response = await fetch(`${this.baseUrl}${url}`, {
+      method,
+      headers: {
+        ...(this.userId && { "X-Test-User": this.userId }),
+        ...(body !== undefined && !raw && { "Content-Type": "application/json" }),
+        ...headers,
+      },
+      body: body === undefined ? undefined : raw ? body as string | Uint8Array : JSON.stringify(body),
+    });
+    const data = Buffer.from(await response.arrayBuffer());
+    const json = /^application\/json/.test(response.headers.get("content-type") || "");
+    return { status: response.status, headers: response.headers, body: json ? JSON.parse(data.toString()) : data };
+  }
+
+  get(url: string, headers?: Record<string, string>) {
+    return this.request("GET", url, undefined, headers);
+  }
+
+  post(url: string, body: unknown = {}, headers?: Record<string, string>) {
+    return this.request("POST", url, body, headers);
+  }
+
+  put(url: string, body: unknown = {}) {
+    return this.request("PUT", url, body);
+  }
+
+  patch(url: string, body: unknown = {}) {
+    return this.request("PATCH", url, body);
+  }
+
+  delete(url: string) {
+    return this.request("DELETE", url);
+  }
+}
+
+export type TestServer = {
+  as(userId: string): ApiClient;
+  anonymous(): ApiClient;
+  close(): Promise<void>;
+};
+
+// Signs each request in as the user named in its X-Test-User header
+async function authenticateFromHeader(app: Express): Promise<void> {
+  app.use(passport.initialize());
+  app.use((req, _res, next) => {
+    const userId = req.header("X-Test-User");
+    if (userId) req.user = { claims: { sub: userId } };
+    next();
+  });
+}
+
+export async function startTestServer(): Promise<TestServer> {
+  const { registerRoutes } = await import("../routes");
+  const app = express();
+  app.use(express.json({ limit: "2mb" }));
+  const server = createServer(app);
+  await registerRoutes(server, app, authenticateFromHeader);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    as: (userId) => new ApiClient(baseUrl, userId),
+    anonymous: () => new ApiClient(baseUrl, null),
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+// Fixtures through the API, failing loudly when the setup itself is rejected
+async function expectCreated(response: Promise<ApiResponse>): Promise<any> {
+  const { status, body } = await response;
+  if (status !== 201) throw new Error(`Setup request failed with ${status}: ${JSON.stringify(body)}`);
+  return body;
+}
+
+export function createKid(parent: ApiClient, name: string): Promise<Kid> {
+  return expectCreated(parent.post("/api/kids", { name, avatar: "child" }));
+}
+
+export function createFolder(parent: ApiClient, folder: Partial<InsertFolder> = {}): Promise<Folder> {
+  return expectCreated(parent.post("/api/folders", { name: "Folder", ...folder }));
+}
+
+// Each video gets a YouTube ID of its own, so it is never a duplicate
+let nextVideo = 0;
+export function addVideo(parent: ApiClient, video: Partial<InsertVideo> = {}): Promise<Video> {
+  const ytId = `test${String(nextVideo++).padStart(7, "0")}`;
+  return expectCreated(parent.post("/api/videos", { url: `https://www.youtube.com/watch?v=${ytId}`, ...video }));
+}
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { Video } from "@shared/schema";
+import { addVideo, createFolder, createKid, startTestServer, type ApiClient, type TestServer } from "./testServer";
+
+async function getVideo(parent: ApiClient, id: string): Promise<Video | undefined> {
+  const videos: Video[] = (await parent.get("/api/videos")).body;
+  return videos.find(v => v.id === id);
+}
+
+describe("trash and restore", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it("restores a deleted video", async () => {
+    const parent = server.as("trash-video");
+    const video = await addVideo(parent);
+
+    assert.equal((await parent.delete(`/api/videos/${video.id}`)).status, 204);
+    assert.equal(await getVideo(parent, video.id), undefined);
+    assert.deepEqual((await parent.get("/api/trash")).body.videos.map((v: Video) => v.id), [video.id]);
+
+    assert.equal((await parent.post(`/api/videos/${video.id}/restore`)).status, 200);
+    assert.ok(await getVideo(parent, video.id));
+    assert.deepEqual((await parent.get("/api/trash")).body.videos, []);
+  });
+
+  it("gives a restored kid back their assignments and progress", async () => {
+    const parent = server.as("trash-kid");
+    const kid = await createKid(parent, "Ada");
+    const folder = await createFolder(parent, { completionPolicy: { type: "watch_only" } });
+    const video = await addVideo(parent, { folderId: folder.id });
+    await parent.post(`/api/videos/${video.id}/watched/${kid.id}`);
+
+    assert.equal((await parent.delete(`/api/kids/${kid.id}`)).status, 204);
+    assert.equal((await getVideo(parent, video.id))?.assigned[kid.id], undefined);
+
+    assert.equal((await parent.post(`/api/kids/${kid.id}/restore`)).status, 200);
+    const restored = await getVideo(parent, video.id);
+    assert.equal(restored?.assigned[kid.id], true);
+    assert.equal(restored?.progress[kid.id]?.watched, true);
+  });
+
+  it("brings a folder's sub-folders back with it", async () => {
+    const parent = server.as("trash-folder");
+    const outer = await createFolder(parent, { name: "Science" });
+    const inner = await createFolder(parent, { name: "Space", parentId: outer.id });
+
+    assert.equal((await parent.delete(`/api/folders/${outer.id}`)).status, 204);
+    assert.deepEqual((await parent.get("/api/folders")).body, []);
+
+    assert.equal((await parent.post(`/api/folders/${outer.id}/restore`)).status, 200);
+    const folders = (await parent.get("/api/folders")).body;
+    assert.deepEqual(folders.map((f: { id: string; parentId: string | null }) => [f.id, f.parentId ?? null]).sort(), [[inner.id, outer.id], [outer.id, null]].sort());
+  });
+});
+
+describe("merging kids", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it("moves the duplicate's progress to the kept kid and undoes it", async () => {
+    const parent = server.as("merge");
+    const kept = await createKid(parent, "Ada");
+    const duplicate = await createKid(parent, "Ada L");
+    const folder = await createFolder(parent, { completionPolicy: { type: "watch_only" } });
+    const video = await addVideo(parent, { folderId: folder.id, kidIds: [duplicate.id] });
+    await parent.post(`/api/videos/${video.id}/watched/${duplicate.id}`);
+
+    const plan = await parent.post("/api/kids/merge", { sourceKidId: duplicate.id, targetKidId: kept.id, dryRun: true });
+    assert.equal(plan.status, 200);
+    assert.deepEqual(plan.body.videos, [{ videoId: video.id, assign: true, progress: "move", recordingIds: [] }]);
+    assert.equal((await getVideo(parent, video.id))?.assigned[kept.id], undefined);
+
+    const merge = await parent.post("/api/kids/merge", { sourceKidId: duplicate.id, targetKidId: kept.id });
+    assert.equal(merge.status, 201);
+    let merged = await getVideo(parent, video.id);
+    assert.equal(merged?.progress[kept.id]?.watched, true);
+    assert.deepEqual((await parent.get("/api/kids")).body.map((k: { id: string }) => k.id), [kept.id]);
+
+    assert.equal((await parent.post(`/api/kids/merges/${merge.body.id}/undo`)).status, 200);
+    merged = await getVideo(parent, video.id);
+    assert.equal(merged?.assigned[kept.id], undefined);
+    assert.equal(merged?.progress[duplicate.id]?.watched, true);
+    assert.equal((await parent.get("/api/kids")).body.length, 2);
+  });
+
+  it("won't merge a kid from another family", async () => {
+    const kept = await createKid(server.as("merge-owner"), "Ada");
+    const other = await createKid(server.as("merge-other"), "Bea");
+
+    const merge = await server.as("merge-owner").post("/api/kids/merge", { sourceKidId: other.id, targetKidId: kept.id });
+    assert.equal(merge.status, 400);
+  });
+});
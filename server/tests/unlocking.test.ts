@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { addVideo, createFolder, createKid, startTestServer, type TestServer } from "./testServer";
+
+const LOCKED = "Finish the earlier videos in this playlist first";
+
+describe("priority unlocking", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it("keeps a strict folder's higher levels locked until every lower video is done", async () => {
+    const parent = server.as("unlock-strict");
+    const kid = await createKid(parent, "Ada");
+    const folder = await createFolder(parent, { unlockMode: "strict", completionPolicy: { type: "watch_only" } });
+    const basics = [await addVideo(parent, { folderId: folder.id, priority: 1 }), await addVideo(parent, { folderId: folder.id, priority: 1 })];
+    const advanced = await addVideo(parent, { folderId: folder.id, priority: 2 });
+
+    assert.deepEqual((await parent.post(`/api/videos/${advanced.id}/watched/${kid.id}`)).body, { error: LOCKED });
+    assert.equal((await parent.post(`/api/videos/${basics[0].id}/watched/${kid.id}`)).status, 200);
+    assert.deepEqual((await parent.post(`/api/videos/${advanced.id}/watched/${kid.id}`)).body, { error: LOCKED });
+    assert.equal((await parent.post(`/api/videos/${basics[1].id}/watched/${kid.id}`)).status, 200);
+    assert.equal((await parent.post(`/api/videos/${advanced.id}/watched/${kid.id}`)).status, 200);
+  });
+
+  it("opens a relaxed folder's next level after one video from each lower level", async () => {
+    const parent = server.as("unlock-relaxed");
+    const kid = await createKid(parent, "Ada");
+    const folder = await createFolder(parent, { unlockMode: "relaxed", completionPolicy: { type: "watch_only" } });
+    const basic = await addVideo(parent, { folderId: folder.id, priority: 1 });
+    await addVideo(parent, { folderId: folder.id, priority: 1 });
+    const advanced = await addVideo(parent, { folderId: folder.id, priority: 2 });
+
+    assert.deepEqual((await parent.post(`/api/videos/${advanced.id}/watched/${kid.id}`)).body, { error: LOCKED });
+    assert.equal((await parent.post(`/api/videos/${basic.id}/watched/${kid.id}`)).status, 200);
+    assert.equal((await parent.post(`/api/videos/${advanced.id}/watched/${kid.id}`)).status, 200);
+  });
+
+  it("gates a strict folder by position once its videos are ordered", async () => {
+    const parent = server.as("unlock-position");
+    const kid = await createKid(parent, "Ada");
+    const folder = await createFolder(parent, { unlockMode: "strict", completionPolicy: { type: "watch_only" } });
+    const first = await addVideo(parent, { folderId: folder.id, priority: 9 });
+    const second = await addVideo(parent, { folderId: folder.id, priority: 1 });
+    assert.equal((await parent.put(`/api/folders/${folder.id}/videos/order`, { ids: [first.id, second.id] })).status, 200);
+
+    assert.deepEqual((await parent.post(`/api/videos/${second.id}/watched/${kid.id}`)).body, { error: LOCKED });
+    assert.equal((await parent.post(`/api/videos/${first.id}/watched/${kid.id}`)).status, 200);
+    assert.equal((await parent.post(`/api/videos/${second.id}/watched/${kid.id}`)).status, 200);
+  });
+
+  it("doesn't gate folders with unlocking off", async () => {
+    const parent = server.as("unlock-off");
+    const kid = await createKid(parent, "Ada");
+    const folder = await createFolder(parent, { unlockMode: "off", completionPolicy: { type: "watch_only" } });
+    await addVideo(parent, { folderId: folder.id, priority: 1 });
+    const advanced = await addVideo(parent, { folderId: folder.id, priority: 2 });
+
+    assert.equal((await parent.post(`/api/videos/${advanced.id}/watched/${kid.id}`)).status, 200);
+  });
+});
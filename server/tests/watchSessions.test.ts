@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { addVideo, createKid, startTestServer, type TestServer } from "./testServer";
+
+describe("watch sessions", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it("records position and watch time from heartbeats", async () => {
+    const parent = server.as("sessions-heartbeat");
+    const kid = await createKid(parent, "Ada");
+    const video = await addVideo(parent);
+
+    const started = await parent.post(`/api/videos/${video.id}/sessions/${kid.id}`);
+    assert.equal(started.status, 201);
+    const heartbeat = await parent.post(`/api/videos/${video.id}/sessions/${kid.id}/heartbeat`, { sessionId: started.body.session.id, position: 4, watchedSeconds: 4 });
+    assert.equal(heartbeat.status, 200);
+    assert.equal(heartbeat.body.progress.lastPosition, 4);
+    assert.equal(heartbeat.body.progress.watchSession.watchedSeconds, 4);
+  });
+
+  it("rejects heartbeats once the video is no longer assigned to the kid", async () => {
+    const parent = server.as("sessions-unassigned");
+    const kid = await createKid(parent, "Ada");
+    const video = await addVideo(parent);
+    const started = await parent.post(`/api/videos/${video.id}/sessions/${kid.id}`);
+    await parent.post(`/api/videos/${video.id}/assignments`, { unassign: [kid.id] });
+
+    const heartbeat = await parent.post(`/api/videos/${video.id}/sessions/${kid.id}/heartbeat`, { sessionId: started.body.session.id, position: 1, watchedSeconds: 1 });
+    assert.equal(heartbeat.status, 400);
+    assert.equal(heartbeat.body.error, "This video is not assigned to this kid");
+  });
+
+  it("stops an open session once the day's screen time is used up", async () => {
+    const parent = server.as("sessions-screen-time");
+    const kid = await createKid(parent, "Ada");
+    const video = await addVideo(parent);
+    await parent.put(`/api/kids/${kid.id}/screen-time`, { weekdayMinutes: 0, weekendMinutes: 0 });
+    assert.equal((await parent.post(`/api/videos/${video.id}/sessions/${kid.id}`)).status, 403);
+
+    await parent.post(`/api/kids/${kid.id}/screen-time/override`, { minutes: 10 });
+    const started = await parent.post(`/api/videos/${video.id}/sessions/${kid.id}`);
+    assert.equal(started.status, 201);
+    await parent.delete(`/api/kids/${kid.id}/screen-time/override`);
+
+    const heartbeat = await parent.post(`/api/videos/${video.id}/sessions/${kid.id}/heartbeat`, { sessionId: started.body.session.id, position: 1, watchedSeconds: 1 });
+    assert.equal(heartbeat.status, 403);
+    assert.equal(heartbeat.body.error, "Screen time is used up for today. Come back tomorrow!");
+  });
+});
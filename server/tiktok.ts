@@ -0,0 +1,32 @@
+import { getVideoInfo } from "@shared/schema";
+import { METADATA_FETCH_TIMEOUT_MS } from "./metadata/provider";
+
+export async function resolveTikTokShortUrl(shortUrl: string): Promise<string | null> {
+  try {
+    const response = await fetch(shortUrl, {
+      method: 'HEAD',
+      redirect: 'follow',
+      signal: AbortSignal.timeout(METADATA_FETCH_TIMEOUT_MS),
+    });
+    const finalUrl = response.url;
+    
+    const videoInfo = getVideoInfo(finalUrl);
+    if (videoInfo && videoInfo.platform === 'tiktok') {
+      return finalUrl;
+    }
+    return null;
+  } catch (error) {
+    console.error('Failed to resolve TikTok short URL:', error);
+    return null;
+  }
+}
+
+export function isTikTokShortUrl(url: string): boolean {
+  try {
+    const u = new URL(url);
+    const host = u.hostname.replace('www.', '').toLowerCase();
+    return host === 'vm.tiktok.com' || (host === 'tiktok.com' && u.pathname.startsWith('/t/'));
+  } catch {
+    return false;
+  }
+}
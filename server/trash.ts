@@ -0,0 +1,31 @@
+import { TRASH_RETENTION_DAYS } from "@shared/schema";
+import { storage, type TrashPurgeResult } from "./storage";
+import { deleteRecordingFiles } from "./recordingStore";
+
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Permanently removes everything that has been in the trash longer than the retention period
+export async function purgeExpiredTrash(now = new Date()): Promise<TrashPurgeResult> {
+  const deletedBefore = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const result = await storage.purgeTrash(deletedBefore);
+  await deleteRecordingFiles(result.recordingKeys);
+  for (const [userId, counts] of Object.entries(result.byUser)) {
+    await storage.logActivity(userId, { type: "trash_purged", actor: "system", details: counts });
+  }
+  return result;
+}
+
+export function startTrashPurgeJob(): void {
+  const run = async () => {
+    try {
+      const { kids, folders, videos, recordingKeys } = await purgeExpiredTrash();
+      if (kids + folders + videos > 0) {
+        console.log(`Purged trash: ${kids} kids, ${folders} folders, ${videos} videos, ${recordingKeys.length} recordings`);
+      }
+    } catch (error) {
+      console.error("Failed to purge trash:", error);
+    }
+  };
+  void run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,61 @@
+import type { Video } from "@shared/schema";
+import { metadataProvider } from "./metadata";
+import { storage } from "./storage";
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+const REFRESH_AFTER_DAYS = 7; // titles and thumbnails change now and then
+const REFRESH_BATCH_SIZE = 200;
+
+// Looks up a new video's details. When the platform can't be reached the video stays
+// unchecked and the refresh job retries it.
+export async function fillVideoMetadata(video: Video): Promise<Video> {
+  try {
+    const metadata = await metadataProvider.getVideo(video.platform, video.ytId);
+    await storage.setVideoMetadata(video.id, metadata, new Date());
+    return metadata ? { ...video, ...metadata } : video;
+  } catch (error) {
+    console.error(`Failed to fetch metadata for video ${video.id}:`, error);
+    return video;
+  }
+}
+
+// Fetches videos that were never checked or were last checked before the refresh window,
+// oldest first. Stops at the first platform error so an outage doesn't burn the batch.
+export async function refreshStaleMetadata(now = new Date()): Promise<number> {
+  const fetchedBefore = new Date(now.getTime() - REFRESH_AFTER_DAYS * 24 * 60 * 60 * 1000);
+  const videos = await storage.getVideosForMetadataRefresh(fetchedBefore, REFRESH_BATCH_SIZE);
+  let refreshed = 0;
+  for (const video of videos) {
+    const metadata = await metadataProvider.getVideo(video.platform, video.ytId);
+    await storage.setVideoMetadata(video.id, metadata, now);
+    refreshed++;
+  }
+  return refreshed;
+}
+
+let running: Promise<void> | null = null;
+
+async function run(): Promise<void> {
+  try {
+    const refreshed = await refreshStaleMetadata();
+    if (refreshed > 0) {
+      console.log(`Refreshed metadata for ${refreshed} videos`);
+    }
+  } catch (error) {
+    console.error("Failed to refresh video metadata:", error);
+  }
+}
+
+// Starts a refresh in the background unless one is already running. Bulk and playlist
+// imports use this instead of looking up every video inline.
+export function requestMetadataRefresh(): void {
+  if (running) return;
+  running = run().finally(() => {
+    running = null;
+  });
+}
+
+export function startMetadataRefreshJob(): void {
+  requestMetadataRefresh();
+  setInterval(requestMetadataRefresh, RUN_INTERVAL_MS).unref();
+}
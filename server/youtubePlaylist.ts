@@ -0,0 +1,87 @@
+import { PLAYLIST_IMPORT_MAX_VIDEOS, VIDEO_PRIORITY_MAX, VIDEO_PRIORITY_MIN, getYouTubePlaylistId, type Folder, type PlaylistSyncResult } from "@shared/schema";
+import { metadataProvider, type PlaylistMetadata } from "./metadata";
+import { compareByPosition, storage } from "./storage";
+import { requestMetadataRefresh } from "./videoMetadata";
+
+// Spreads playlist positions evenly over the priority levels, first videos lowest
+function getPlaylistPriority(index: number, total: number): number {
+  const levels = VIDEO_PRIORITY_MAX - VIDEO_PRIORITY_MIN + 1;
+  return VIDEO_PRIORITY_MIN + Math.floor((index * levels) / Math.max(total, 1));
+}
+
+async function fetchPlaylist(playlistId: string): Promise<{ playlist: PlaylistMetadata | null; error?: string }> {
+  if (!metadataProvider.canFetchPlaylists()) {
+    return { playlist: null, error: "YouTube playlist import isn't set up on this server (YOUTUBE_API_KEY is missing)" };
+  }
+  try {
+    const playlist = await metadataProvider.getPlaylist(playlistId, PLAYLIST_IMPORT_MAX_VIDEOS + 1);
+    if (!playlist) return { playlist: null, error: "Playlist not found. Check that it is public or unlisted." };
+    return { playlist };
+  } catch (error) {
+    console.error("Failed to fetch YouTube playlist:", error);
+    return { playlist: null, error: "Could not load the playlist from YouTube. Please try again later." };
+  }
+}
+
+async function orderLikePlaylist(folder: Folder, ytIds: string[], userId: string): Promise<void> {
+  const indexes = new Map(ytIds.map((ytId, i) => [ytId, i]));
+  const videos = (await storage.getVideos(userId)).filter(v => v.folderId === folder.id);
+  const ordered = videos.sort((a, b) =>
+    (indexes.get(a.ytId) ?? Infinity) - (indexes.get(b.ytId) ?? Infinity) || compareByPosition(a, b)
+  );
+  await storage.reorderVideos(folder.id, ordered.map(v => v.id), userId);
+}
+
+// Adds the playlist's videos that aren't in the folder yet. Videos removed from the
+// playlist stay in the folder, after the ones still in it. When videos were added the
+// folder is put back in playlist order.
+async function addPlaylistVideos(folder: Folder, playlist: PlaylistMetadata, kidIds: string[] | undefined, userId: string): Promise<PlaylistSyncResult> {
+  const items = playlist.items.slice(0, PLAYLIST_IMPORT_MAX_VIDEOS);
+  const [kids, videos] = await Promise.all([storage.getKids(userId), storage.getVideos(userId)]);
+  const inFolder = new Set(videos.filter(v => v.folderId === folder.id).map(v => v.ytId));
+  const result: PlaylistSyncResult = { folder, added: [], alreadyInFolder: 0, duplicates: 0, truncated: playlist.items.length > items.length };
+
+  for (let i = 0; i < items.length; i++) {
+    if (inFolder.has(items[i].videoId)) {
+      result.alreadyInFolder++;
+      continue;
+    }
+    const url = `https://www.youtube.com/watch?v=${items[i].videoId}`;
+    const { video } = await storage.createVideo(url, kidIds, kids, userId, folder.id, getPlaylistPriority(i, items.length));
+    if (!video) {
+      result.duplicates++;
+      continue;
+    }
+    inFolder.add(video.ytId);
+    result.added.push(video.id);
+    await storage.logActivity(userId, { type: "video_added", actor: "parent", videoId: video.id, details: { url, folderId: folder.id, youtubePlaylistId: playlist.id } });
+  }
+  if (result.added.length > 0) {
+    await orderLikePlaylist(folder, items.map(item => item.videoId), userId);
+    requestMetadataRefresh();
+  }
+  return result;
+}
+
+// Creates a folder named after the playlist, or re-syncs the folder it was imported into
+// before. New folders don't gate by priority; the levels only carry the playlist order.
+export async function importYouTubePlaylist(url: string, kidIds: string[] | undefined, userId: string): Promise<{ result: PlaylistSyncResult | null; error?: string }> {
+  const playlistId = getYouTubePlaylistId(url);
+  if (!playlistId) return { result: null, error: "Not a YouTube playlist link" };
+
+  const { playlist, error } = await fetchPlaylist(playlistId);
+  if (!playlist) return { result: null, error };
+
+  const existing = (await storage.getFolders(userId)).find(f => f.youtubePlaylistId === playlistId);
+  const folder = existing ?? await storage.createFolder({ name: playlist.title, unlockMode: "off", youtubePlaylistId: playlistId }, userId);
+  return { result: await addPlaylistVideos(folder, playlist, kidIds, userId) };
+}
+
+export async function syncYouTubePlaylist(folderId: string, kidIds: string[] | undefined, userId: string): Promise<{ result: PlaylistSyncResult | null; error?: string }> {
+  const folder = await storage.getFolder(folderId, userId);
+  if (!folder?.youtubePlaylistId) return { result: null, error: "This folder wasn't imported from a YouTube playlist" };
+
+  const { playlist, error } = await fetchPlaylist(folder.youtubePlaylistId);
+  if (!playlist) return { result: null, error };
+  return { result: await addPlaylistVideos(folder, playlist, kidIds, userId) };
+}
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { pgTable, text, varchar, integer, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, jsonb, timestamp, boolean, primaryKey, index } from "drizzle-orm/pg-core";
 
 // Export auth models
 export * from "./models/auth";
@@ -29,14 +29,112 @@ export const insertKidSchema = kidSchema.omit({ id: true });
 export type Kid = z.infer<typeof kidSchema>;
 export type InsertKid = z.infer<typeof insertKidSchema>;
 
+// Optional spoken reply from a parent when reviewing a recording
+export const parentVoiceReplySchema = z.object({
+  recordedAt: z.string(),
+  duration: z.number().positive(), // seconds
+  audioId: z.string().optional(), // stored recording, streamed from /api/recordings/:id
+  audioData: z.string().optional(), // legacy inline base64 data URL; converted to audioId on upload
+});
+
+export const RECORDING_REVIEW_STATUSES = ["approved", "redo_requested"] as const;
+
+export const recordingReviewSchema = z.object({
+  status: z.enum(RECORDING_REVIEW_STATUSES),
+  reviewedAt: z.string(),
+  comment: z.string().optional(),
+  voiceReply: parentVoiceReplySchema.optional(),
+});
+
 // Voice recording for video completion
 export const voiceRecordingSchema = z.object({
+  id: z.string().optional(), // missing on recordings made before reviews existed; recordedAt identifies those
   recordedAt: z.string(),
   duration: z.number(), // seconds
-  audioData: z.string().optional(), // base64 audio data for playback
+  audioId: z.string().optional(), // stored recording, streamed from /api/recordings/:id
+  audioData: z.string().optional(), // legacy inline base64 data URL; converted to audioId on upload
+  review: recordingReviewSchema.optional(),
 });
 
 export type VoiceRecording = z.infer<typeof voiceRecordingSchema>;
+export type RecordingReview = z.infer<typeof recordingReviewSchema>;
+
+// Parent's review action on a single recording
+export const reviewRecordingSchema = z.object({
+  action: z.enum(["approve", "redo"]),
+  comment: z.string().trim().max(500).optional(),
+  voiceReply: parentVoiceReplySchema.optional(),
+}).refine(r => r.action === "approve" || !!r.comment || !!r.voiceReply, "Add a comment or a voice reply when asking for a redo");
+
+export type ReviewRecording = z.infer<typeof reviewRecordingSchema>;
+
+// Open redo request shown to the kid the next time they open the video
+export const redoRequestSchema = z.object({
+  recordingId: z.string().optional(), // absent when a parent sign-off was declined
+  requestedAt: z.string(),
+  comment: z.string().optional(),
+  voiceReply: parentVoiceReplySchema.optional(),
+});
+
+// Server-side watch session; heartbeats must reference the current session
+export const watchSessionSchema = z.object({
+  id: z.string(),
+  startedAt: z.string(),
+  lastHeartbeatAt: z.string(),
+  watchedSeconds: z.number(), // play time accumulated in this session
+});
+
+export type WatchSession = z.infer<typeof watchSessionSchema>;
+
+// Multiple-choice comprehension quiz attached to a video
+export const QUIZ_QUESTION_KINDS = ["text", "picture"] as const;
+export const QUIZ_PASSING_SCORE_DEFAULT = 80;
+
+export const quizChoiceSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().trim().max(200).default(""),
+  imageUrl: z.string().url().optional(), // required for picture questions
+});
+
+export const quizQuestionSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(QUIZ_QUESTION_KINDS).default("text"),
+  prompt: z.string().trim().min(1, "Question is required").max(300),
+  choices: z.array(quizChoiceSchema).min(2, "Add at least two answers").max(6),
+  correctChoiceId: z.string(),
+})
+  .refine(q => q.choices.some(c => c.id === q.correctChoiceId), "The correct answer must be one of the choices")
+  .refine(q => q.kind !== "picture" || q.choices.every(c => !!c.imageUrl), "Every answer in a picture question needs an image")
+  .refine(q => q.kind !== "text" || q.choices.every(c => c.label.length > 0), "Every answer needs a label");
+
+export const quizSchema = z.object({
+  questions: z.array(quizQuestionSchema).min(1).max(20)
+    .refine(qs => new Set(qs.map(q => q.id)).size === qs.length, "Question IDs must be unique"),
+  passingScore: z.number().int().min(0).max(100).default(QUIZ_PASSING_SCORE_DEFAULT), // percent correct
+});
+
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
+export type Quiz = z.infer<typeof quizSchema>;
+
+// The quiz as kids receive it: no correct answers
+export type KidQuiz = {
+  questions: (Omit<QuizQuestion, "correctChoiceId">)[];
+  passingScore: number;
+};
+
+export const quizSubmissionSchema = z.object({
+  answers: z.record(z.string(), z.string()), // questionId -> choiceId
+});
+
+export const quizAttemptSchema = z.object({
+  submittedAt: z.string(),
+  answers: z.record(z.string(), z.string()),
+  score: z.number(), // percent correct
+  passed: z.boolean(),
+  missedQuestionIds: z.array(z.string()),
+});
+
+export type QuizAttempt = z.infer<typeof quizAttemptSchema>;
 
 // Video progress per kid
 export const videoProgressSchema = z.object({
@@ -47,29 +145,95 @@ export const videoProgressSchema = z.object({
   parentReviewed: z.boolean().optional(),
   lastPosition: z.number().optional(),
   videoDuration: z.number().optional(),
-  dailyWatchTime: z.record(z.string(), z.number()).optional(),
+  dailyWatchTime: z.record(z.string(), z.number()).optional(), // YYYY-MM-DD -> seconds played
+  watchSession: watchSessionSchema.optional(),
+  redoRequest: redoRequestSchema.optional(), // cleared when the kid completes the video again
+  quizAttempts: z.array(quizAttemptSchema).optional(),
+  awaitingSignoff: z.string().optional(), // submitted-at time while a parent_signoff completion waits for the parent
+  archivedAt: z.string().optional(), // set when the kid is unassigned or trashed; cleared on reassignment
 });
 
 export type VideoProgress = z.infer<typeof videoProgressSchema>;
 
-// Max views per video
+// Default views per kid per video; families, folders and videos can override it
 export const MAX_VIDEO_VIEWS = 4;
 
+// A view limit of 0 means unlimited; null on a folder or video means "inherit"
+export const viewLimitSchema = z.number().int().min(0).max(100);
+
+// Starting a session within this long of the kid's last heartbeat resumes the same view
+export const VIEW_RESUME_WINDOW_MINUTES = 30;
+
+// Heartbeats report play time since the previous heartbeat; anything larger than this
+// (or larger than the wall-clock time since the previous heartbeat) is rejected
+export const WATCH_HEARTBEAT_MAX_SECONDS = 60;
+export const WATCH_HEARTBEAT_GRACE_SECONDS = 5;
+
+export const watchHeartbeatSchema = z.object({
+  sessionId: z.string().min(1, "Session ID is required"),
+  position: z.number().min(0), // current playback position in seconds
+  duration: z.number().positive().optional(), // video length in seconds, if known
+  watchedSeconds: z.number().min(0).max(WATCH_HEARTBEAT_MAX_SECONDS), // seconds actually played since the last heartbeat
+});
+
+export type WatchHeartbeat = z.infer<typeof watchHeartbeatSchema>;
+
 // Supported video platforms
 export const VIDEO_PLATFORMS = ["youtube", "tiktok"] as const;
 export type VideoPlatform = typeof VIDEO_PLATFORMS[number];
 
+// What a kid has to do before a video counts as completed
+export const COMPLETION_POLICY_TYPES = ["watch_only", "voice", "quiz", "parent_signoff"] as const;
+
+export const completionPolicySchema = z.object({
+  type: z.enum(COMPLETION_POLICY_TYPES),
+  minVoiceSeconds: z.number().min(0).max(600).optional(), // only for "voice"
+});
+
+export type CompletionPolicy = z.infer<typeof completionPolicySchema>;
+
+// Used when neither the video nor its folder sets a policy
+export const DEFAULT_COMPLETION_POLICY: CompletionPolicy = { type: "voice" };
+
+// How priority levels gate videos within a folder:
+// strict = every lower-priority video must be completed first (every earlier video, once
+// the folder's videos have positions), relaxed = at least one video from each lower level,
+// off = no gating
+export const UNLOCK_MODES = ["strict", "relaxed", "off"] as const;
+export type UnlockMode = typeof UNLOCK_MODES[number];
+
 // Folder schema for organizing videos
 export const folderSchema = z.object({
   id: z.string(),
   name: z.string().min(1, "Folder name is required"),
+  completionPolicy: completionPolicySchema.nullable().optional(), // default for videos in this folder
+  unlockMode: z.enum(UNLOCK_MODES).optional(), // defaults to "strict"
+  viewLimit: viewLimitSchema.nullable().optional(), // null = use the family's limit
+  youtubePlaylistId: z.string().nullable().optional(), // set on folders imported from a YouTube playlist
+  position: z.number().int().nullable().optional(), // place among its siblings; null = after ordered folders
+  parentId: z.string().nullable().optional(), // null = top level
 });
 
-export const insertFolderSchema = folderSchema.omit({ id: true });
+export const insertFolderSchema = folderSchema.omit({ id: true, position: true });
 
 export type Folder = z.infer<typeof folderSchema>;
 export type InsertFolder = z.infer<typeof insertFolderSchema>;
 
+// Folders nest up to this many levels, counting the top level
+export const FOLDER_MAX_DEPTH = 3;
+
+export const moveFolderSchema = z.object({
+  parentId: z.string().nullable(),
+});
+
+// What happens to a deleted folder's sub-folders: trash = they go to the trash with it and
+// come back when it is restored; move_up = they move to its parent, keeping their videos.
+// The folder's own videos show as unfiled until it is restored, either way.
+export const FOLDER_DELETE_MODES = ["trash", "move_up"] as const;
+export type FolderDeleteMode = typeof FOLDER_DELETE_MODES[number];
+
+export type FolderTreeNode = Folder & { children: FolderTreeNode[] };
+
 // Video priority levels (1 = basic/beginner, 9 = advanced)
 export const VIDEO_PRIORITY_MIN = 1;
 export const VIDEO_PRIORITY_MAX = 9;
@@ -85,7 +249,16 @@ export const videoSchema = z.object({
   priority: z.number().min(1).max(9).default(VIDEO_PRIORITY_DEFAULT), // 1=basic, 9=advanced
   assigned: z.record(z.string(), z.boolean()), // kidId -> assigned
   progress: z.record(z.string(), videoProgressSchema), // kidId -> progress
-  totalViews: z.number().default(0), // total times video has been watched (max 4)
+  totalViews: z.number().default(0), // legacy shared counter; views are now logged per kid in view_events
+  completionPolicy: completionPolicySchema.nullable().optional(), // null = use the folder's policy
+  viewLimit: viewLimitSchema.nullable().optional(), // null = use the folder's limit
+  quiz: quizSchema.nullable().optional(),
+  position: z.number().int().nullable().optional(), // place in its folder; null = after ordered videos
+  // Looked up from the platform when the video is added and refreshed periodically; null until then
+  title: z.string().nullable().optional(),
+  author: z.string().nullable().optional(), // YouTube channel or TikTok account
+  durationSeconds: z.number().nullable().optional(),
+  thumbnailUrl: z.string().nullable().optional(),
 });
 
 export const insertVideoSchema = z.object({
@@ -98,18 +271,51 @@ export const insertVideoSchema = z.object({
 export type Video = z.infer<typeof videoSchema>;
 export type InsertVideo = z.infer<typeof insertVideoSchema>;
 
+// Computed per kid; unlocksAfter lists the video IDs still blocking this one
+export type VideoLockState = { locked: boolean; unlocksAfter: string[] };
+
+// Assignment changes for one or more existing videos
+export const videoAssignmentSchema = z.object({
+  assign: z.array(z.string()).default([]), // kid IDs to (re)assign
+  unassign: z.array(z.string()).default([]), // kid IDs to unassign (progress is archived, not deleted)
+}).refine(d => d.assign.length > 0 || d.unassign.length > 0, "Nothing to assign or unassign");
+
+export const batchVideoAssignmentSchema = z.object({
+  videoIds: z.array(z.string()).min(1, "At least one video is required"),
+  assign: z.array(z.string()).default([]),
+  unassign: z.array(z.string()).default([]),
+}).refine(d => d.assign.length > 0 || d.unassign.length > 0, "Nothing to assign or unassign");
+
+export type VideoAssignment = z.infer<typeof videoAssignmentSchema>;
+
+// Parent decision on a video that uses the "parent_signoff" policy
+export const signoffSchema = z.object({
+  approve: z.boolean(),
+  comment: z.string().trim().max(500).optional(),
+});
+
+export type Signoff = z.infer<typeof signoffSchema>;
+
 // Database tables for Drizzle ORM
 export const kidsTable = pgTable("kids", {
   id: varchar("id", { length: 64 }).primaryKey(),
   userId: varchar("user_id", { length: 255 }).notNull(), // Owner user ID
   name: text("name").notNull(),
   avatar: text("avatar").notNull(),
+  deletedAt: timestamp("deleted_at"), // in the trash until purged
 });
 
 export const foldersTable = pgTable("folders", {
   id: varchar("id", { length: 64 }).primaryKey(),
   userId: varchar("user_id", { length: 255 }).notNull(), // Owner user ID
   name: text("name").notNull(),
+  completionPolicy: jsonb("completion_policy").$type<CompletionPolicy>(),
+  unlockMode: text("unlock_mode").notNull().default("strict"),
+  viewLimit: integer("view_limit"),
+  youtubePlaylistId: text("youtube_playlist_id"),
+  position: integer("position"),
+  parentId: varchar("parent_id", { length: 64 }),
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const videosTable = pgTable("videos", {
@@ -120,9 +326,148 @@ export const videosTable = pgTable("videos", {
   platform: text("platform").notNull().default("youtube"), // youtube or tiktok
   folderId: varchar("folder_id", { length: 64 }),
   priority: integer("priority").notNull().default(5), // 1=basic, 9=advanced
-  assigned: jsonb("assigned").notNull().$type<Record<string, boolean>>(),
-  progress: jsonb("progress").notNull().$type<Record<string, VideoProgress>>(),
+  // Legacy per-kid maps, superseded by video_assignments/video_progress (see script/migrate-video-progress.ts)
+  assigned: jsonb("assigned").notNull().$type<Record<string, boolean>>().default({}),
+  progress: jsonb("progress").notNull().$type<Record<string, VideoProgress>>().default({}),
   totalViews: integer("total_views").notNull().default(0),
+  completionPolicy: jsonb("completion_policy").$type<CompletionPolicy>(),
+  quiz: jsonb("quiz").$type<Quiz>(),
+  viewLimit: integer("view_limit"),
+  position: integer("position"),
+  title: text("title"),
+  author: text("author"),
+  durationSeconds: integer("duration_seconds"),
+  thumbnailUrl: text("thumbnail_url"),
+  metadataFetchedAt: timestamp("metadata_fetched_at"), // last lookup, successful or not
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("IDX_videos_user_folder").on(table.userId, table.folderId),
+  index("IDX_videos_metadata_fetched").on(table.metadataFetchedAt),
+]);
+
+// Which kids a video is assigned to, one row per (video, kid)
+export const videoAssignmentsTable = pgTable("video_assignments", {
+  videoId: varchar("video_id", { length: 64 }).notNull(),
+  kidId: varchar("kid_id", { length: 64 }).notNull(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.videoId, table.kidId] }),
+  index("IDX_video_assignments_user_kid").on(table.userId, table.kidId),
+]);
+
+// A kid's progress on a video. The flag columns mirror `progress` so badges and
+// reports can be counted in SQL; they are rewritten with every progress update.
+export const videoProgressTable = pgTable("video_progress", {
+  videoId: varchar("video_id", { length: 64 }).notNull(),
+  kidId: varchar("kid_id", { length: 64 }).notNull(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  progress: jsonb("progress").notNull().$type<VideoProgress>(),
+  watched: boolean("watched").notNull().default(false),
+  parentReviewed: boolean("parent_reviewed"), // null until the first completion
+  awaitingSignoff: boolean("awaiting_signoff").notNull().default(false),
+  archived: boolean("archived").notNull().default(false),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.videoId, table.kidId] }),
+  index("IDX_video_progress_user_kid").on(table.userId, table.kidId),
+]);
+
+// Audio files in the recording store. Progress entries reference these by id.
+export const recordingsTable = pgTable("recordings", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  kidId: varchar("kid_id", { length: 64 }), // kid who recorded it, or who a parent reply is for
+  storageKey: text("storage_key").notNull(),
+  mimeType: text("mime_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One kid folded into another. The snapshot keeps both kids' per-video data from before
+// the merge so it can be undone.
+export const kidMergesTable = pgTable("kid_merges", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  sourceKidId: varchar("source_kid_id", { length: 64 }).notNull(),
+  targetKidId: varchar("target_kid_id", { length: 64 }).notNull(),
+  videos: jsonb("videos").notNull().$type<KidMergeVideo[]>(),
+  audioIds: jsonb("audio_ids").notNull().$type<string[]>(), // recording files moved to the target
+  snapshot: jsonb("snapshot").notNull().$type<KidMergeSnapshot[]>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  undoneAt: timestamp("undone_at"),
+});
+
+// A parent's request to delete their account. It only runs once confirmed and the grace
+// period is over; until then it can be cancelled.
+export const accountDeletionsTable = pgTable("account_deletions", {
+  userId: varchar("user_id", { length: 255 }).primaryKey(),
+  codeHash: text("code_hash").notNull(), // sha256 of the confirmation code
+  requestedAt: timestamp("requested_at").notNull().defaultNow(),
+  confirmBy: timestamp("confirm_by").notNull(),
+  scheduledFor: timestamp("scheduled_for"), // null until confirmed
+});
+
+// Append-only log of changes to a family's kids, videos and subscriptions
+export const activityEventsTable = pgTable("activity_events", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  type: text("type").notNull(), // see ACTIVITY_EVENT_TYPES
+  actor: text("actor").notNull(), // see ACTIVITY_ACTORS
+  accessTokenId: varchar("access_token_id", { length: 64 }), // kid device, when acting through an access token
+  kidId: varchar("kid_id", { length: 64 }),
+  videoId: varchar("video_id", { length: 64 }),
+  details: jsonb("details").notNull().$type<Record<string, unknown>>().default({}),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_activity_events_user_created").on(table.userId, table.createdAt),
+]);
+
+// Family-wide settings, one row per parent account
+export const familySettingsTable = pgTable("family_settings", {
+  userId: varchar("user_id", { length: 255 }).primaryKey(),
+  timezone: text("timezone").notNull().default("UTC"), // IANA zone used for daily limits
+  allowLegacyKidLinks: boolean("allow_legacy_kid_links").notNull().default(false), // accept raw kid IDs on public kid routes; off for new families
+  pinHash: text("pin_hash"), // scrypt hash of the parent PIN guarding locked kid mode
+  pinFailedAttempts: integer("pin_failed_attempts").notNull().default(0),
+  pinLockedUntil: timestamp("pin_locked_until"),
+  viewLimit: integer("view_limit").notNull().default(MAX_VIDEO_VIEWS), // per kid per video, 0 = unlimited
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Per-kid daily screen-time limits (null = unlimited)
+export const kidScreenTimeTable = pgTable("kid_screen_time", {
+  kidId: varchar("kid_id", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  weekdayMinutes: integer("weekday_minutes"),
+  weekendMinutes: integer("weekend_minutes"),
+  viewingWindows: jsonb("viewing_windows").notNull().$type<ViewingWindow[]>().default([]), // empty = any time
+  overrideExpiresAt: timestamp("override_expires_at"), // one-off extra time granted by a parent
+});
+
+// Per-device kid mode access tokens. Only an HMAC of the token is stored.
+export const kidAccessTokensTable = pgTable("kid_access_tokens", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  kidId: varchar("kid_id", { length: 64 }).notNull(),
+  name: text("name").notNull(), // e.g. "Living room iPad"
+  tokenHash: text("token_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// One row per viewing of a video by a kid. The id is the watch session id.
+export const viewEventsTable = pgTable("view_events", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  videoId: varchar("video_id", { length: 64 }).notNull(),
+  kidId: varchar("kid_id", { length: 64 }).notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"), // time of the last heartbeat
+  watchedSeconds: integer("watched_seconds").notNull().default(0),
+  source: text("source").notNull(), // see VIEW_SOURCES
+  accessTokenId: varchar("access_token_id", { length: 64 }), // kid device, when watched through an access token
+  isRedo: boolean("is_redo").notNull().default(false), // redo views don't count toward the limit
 });
 
 // Global playlist subscriptions - parents subscribe to master's playlists for their kids
@@ -150,6 +495,111 @@ export const insertGlobalSubscriptionSchema = z.object({
 export type GlobalSubscription = z.infer<typeof globalSubscriptionSchema>;
 export type InsertGlobalSubscription = z.infer<typeof insertGlobalSubscriptionSchema>;
 
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const familySettingsSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone"),
+  allowLegacyKidLinks: z.boolean(), // turn off once every device uses an access token
+  viewLimit: viewLimitSchema, // views per kid per video, 0 = unlimited
+});
+
+export const updateFamilySettingsSchema = familySettingsSchema.partial();
+
+export type FamilySettings = z.infer<typeof familySettingsSchema>;
+export type UpdateFamilySettings = z.infer<typeof updateFamilySettingsSchema>;
+
+// Daily screen-time limit per kid, in minutes (null = no limit)
+export const screenTimeLimitSchema = z.object({
+  weekdayMinutes: z.number().int().min(0).max(1440).nullable(),
+  weekendMinutes: z.number().int().min(0).max(1440).nullable(),
+});
+
+export type ScreenTimeLimit = z.infer<typeof screenTimeLimitSchema>;
+
+// Weekly window when a kid's library can be opened, in the family timezone.
+// Windows cannot cross midnight; use two windows for that.
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+export const viewingWindowSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1, "Pick at least one day"), // 0 = Sunday
+  start: z.string().regex(TIME_OF_DAY, "Use HH:MM"),
+  end: z.string().regex(TIME_OF_DAY, "Use HH:MM"), // exclusive; "24:00" means midnight
+}).refine(w => w.start < w.end, "Window must end after it starts");
+
+export const viewingWindowsSchema = z.object({
+  windows: z.array(viewingWindowSchema).max(20),
+});
+
+export type ViewingWindow = z.infer<typeof viewingWindowSchema>;
+
+export const SCREEN_TIME_OVERRIDE_MAX_MINUTES = 240;
+
+export const screenTimeOverrideSchema = z.object({
+  minutes: z.number().int().min(1).max(SCREEN_TIME_OVERRIDE_MAX_MINUTES),
+});
+
+// Computed screen-time state for a kid's current day in the family timezone
+export type ScreenTimeStatus = {
+  timezone: string;
+  today: string; // YYYY-MM-DD
+  limitMinutes: number | null;
+  usedMinutes: number;
+  remainingMinutes: number | null;
+  remainingSeconds: number | null; // for a live countdown in kid mode
+  limitReached: boolean;
+  resetsAt: string; // next midnight in the family timezone
+};
+
+// Whether kid mode may be used right now, and if not, when it opens again
+export type ViewingAccess = {
+  allowed: boolean; // may start watching
+  reason?: "outside_window" | "limit_reached";
+  insideWindow: boolean;
+  windowClosesAt: string | null;
+  nextWindowOpensAt: string | null; // set whenever access is currently blocked
+  overrideExpiresAt: string | null;
+  screenTime: ScreenTimeStatus;
+};
+
+// Parent PIN guarding locked kid mode
+export const PIN_MAX_ATTEMPTS = 5; // consecutive failures before a lockout
+
+export const setParentPinSchema = z.object({
+  pin: z.string().regex(/^\d{4,8}$/, "PIN must be 4 to 8 digits"),
+});
+
+export const verifyParentPinSchema = z.object({
+  pin: z.string().min(1, "PIN is required"),
+});
+
+export type ParentPinState = {
+  pinHash: string | null;
+  failedAttempts: number;
+  lockedUntil: Date | null;
+};
+
+export const kidAccessTokenSchema = z.object({
+  id: z.string(),
+  kidId: z.string(),
+  name: z.string(),
+  createdAt: z.string().optional(),
+  lastUsedAt: z.string().nullable(),
+  revokedAt: z.string().nullable(),
+});
+
+export const insertKidAccessTokenSchema = z.object({
+  name: z.string().trim().min(1, "Device name is required").max(60),
+});
+
+export type KidAccessToken = z.infer<typeof kidAccessTokenSchema>;
+
 // Feedback table for user feedback with various media types
 export const feedbackTable = pgTable("feedback", {
   id: varchar("id", { length: 64 }).primaryKey(),
@@ -175,6 +625,11 @@ export const insertFeedbackSchema = z.object({
 export type Feedback = z.infer<typeof feedbackSchema>;
 export type InsertFeedback = z.infer<typeof insertFeedbackSchema>;
 
+// Calendar day (YYYY-MM-DD) used as the key for dailyWatchTime
+export function getDayKey(date: Date, timeZone?: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+}
+
 // Helper function to extract YouTube ID from various URL formats
 export function getYouTubeId(url: string): string | null {
   try {
@@ -200,6 +655,18 @@ export function getYouTubeId(url: string): string | null {
   }
 }
 
+// Playlist ID from a youtube.com/playlist?list= link, or a watch link played from a playlist
+export function getYouTubePlaylistId(url: string): string | null {
+  try {
+    const u = new URL(String(url || "").trim());
+    if (!/(^|\.)youtube\.com$/.test(u.hostname.toLowerCase())) return null;
+    const list = u.searchParams.get("list");
+    return list && /^[\w-]+$/.test(list) ? list : null;
+  } catch {
+    return null;
+  }
+}
+
 // Helper function to extract TikTok video ID from various URL formats
 // Note: Short URLs (vm.tiktok.com) are NOT supported because they require server-side resolution
 // Only full TikTok URLs with numeric video IDs work with embedded playback
@@ -243,3 +710,306 @@ export function getVideoInfo(url: string): { platform: VideoPlatform; videoId: s
 
   return null;
 }
+
+// Where a view came from: a parent session, a kid device token, a raw kid link, or the totalViews migration
+export const VIEW_SOURCES = ["parent", "kid_device", "kid_link", "migrated"] as const;
+export type ViewSource = typeof VIEW_SOURCES[number];
+
+export const viewEventSchema = z.object({
+  id: z.string(),
+  videoId: z.string(),
+  kidId: z.string(),
+  startedAt: z.string(),
+  endedAt: z.string().nullable(),
+  watchedSeconds: z.number(),
+  source: z.enum(VIEW_SOURCES),
+  accessTokenId: z.string().nullable(),
+  isRedo: z.boolean(),
+});
+
+export type ViewEvent = z.infer<typeof viewEventSchema>;
+
+// Per-kid view count against the limit that applies to a video
+export type ViewLimitStatus = { kidId: string; views: number; limit: number | null; remaining: number | null };
+
+// Uploaded voice recordings
+export const RECORDING_MAX_BYTES = 10 * 1024 * 1024;
+export const RECORDING_QUOTA_BYTES_DEFAULT = 500 * 1024 * 1024; // per family, override with RECORDING_QUOTA_MB
+
+export const storedRecordingSchema = z.object({
+  id: z.string(),
+  kidId: z.string().nullable(),
+  mimeType: z.string(),
+  sizeBytes: z.number(),
+  createdAt: z.string().optional(),
+});
+
+export type StoredRecording = z.infer<typeof storedRecordingSchema>;
+
+// Deleted kids, playlists and videos stay restorable for this long
+export const TRASH_RETENTION_DAYS = 30;
+
+export type TrashItem<T> = T & { deletedAt: string; purgeAt: string };
+
+export type Trash = {
+  kids: TrashItem<Kid>[];
+  folders: TrashItem<Folder>[];
+  videos: TrashItem<Video>[];
+};
+
+// Merging one kid into another; the source kid goes to the trash
+export const KID_MERGE_UNDO_HOURS = 24;
+
+export const kidMergeRequestSchema = z.object({
+  sourceKidId: z.string().min(1),
+  targetKidId: z.string().min(1),
+  dryRun: z.boolean().default(false), // return the plan without changing anything
+}).refine(d => d.sourceKidId !== d.targetKidId, "Pick two different kids to merge");
+
+// What a merge does to one video. "move" hands the source's progress to the target;
+// "combine" merges it into progress the target already has.
+export type KidMergeVideo = {
+  videoId: string;
+  assign: boolean; // the target becomes assigned
+  progress: "move" | "combine" | null;
+  recordingIds: string[]; // the source's voice recordings on this video
+};
+
+export type KidMergeSlot = { assigned: boolean; progress: VideoProgress | null };
+export type KidMergeSnapshot = { videoId: string; source: KidMergeSlot; target: KidMergeSlot; merged: KidMergeSlot };
+
+export type KidMergePlan = {
+  sourceKidId: string;
+  targetKidId: string;
+  videos: KidMergeVideo[];
+  audioIds: string[];
+};
+
+export type KidMerge = KidMergePlan & {
+  id: string;
+  createdAt: string;
+  undoUntil: string;
+  undoneAt: string | null;
+};
+
+// Whole-family backup, sent as newline-delimited JSON so neither side has to hold a full
+// recording quota in memory: the first line is the family, then one line per recording
+// with its audio as base64. The recordings together are bounded by the family's quota.
+export const FAMILY_ARCHIVE_VERSION = 2;
+export const FAMILY_ARCHIVE_MEDIA_TYPE = "application/vnd.kidvideo.family+ndjson";
+export const FAMILY_ARCHIVE_LINE_MAX_BYTES = 32 * 1024 * 1024;
+export const FAMILY_IMPORT_MODES = ["merge", "replace"] as const;
+export type FamilyImportMode = typeof FAMILY_IMPORT_MODES[number];
+
+export const familyArchiveSchema = z.object({
+  version: z.literal(FAMILY_ARCHIVE_VERSION),
+  exportedAt: z.string(),
+  settings: familySettingsSchema,
+  kids: z.array(kidSchema.extend({
+    screenTime: screenTimeLimitSchema,
+    viewingWindows: z.array(viewingWindowSchema),
+  })),
+  folders: z.array(folderSchema),
+  videos: z.array(videoSchema),
+  recordings: z.array(storedRecordingSchema), // audio follows on its own lines, in this order
+  subscriptions: z.array(insertGlobalSubscriptionSchema),
+});
+
+export type FamilyArchive = z.infer<typeof familyArchiveSchema>;
+
+export const familyArchiveRecordingSchema = z.object({
+  id: z.string(),
+  data: z.string(), // base64 audio
+});
+
+export type FamilyArchiveRecording = z.infer<typeof familyArchiveRecordingSchema>;
+
+export type FamilyImportResult = { kids: number; folders: number; videos: number; recordings: number; subscriptions: number };
+
+// Self-service account deletion. The request step returns a code that must be confirmed
+// within ACCOUNT_DELETION_CONFIRM_MINUTES; everything is deleted after the grace period.
+export const ACCOUNT_DELETION_GRACE_DAYS = 7;
+export const ACCOUNT_DELETION_CONFIRM_MINUTES = 15;
+
+export const requestAccountDeletionSchema = z.object({
+  pin: z.string().optional(), // required when a parent PIN is set
+});
+
+export const confirmAccountDeletionSchema = z.object({
+  code: z.string().trim().min(1, "Confirmation code is required"),
+});
+
+export type AccountDeletionState = {
+  codeHash: string;
+  requestedAt: Date;
+  confirmBy: Date;
+  scheduledFor: Date | null;
+};
+
+export type AccountDeletion = {
+  status: "awaiting_confirmation" | "scheduled";
+  requestedAt: string;
+  confirmBy: string | null;
+  scheduledFor: string | null;
+};
+
+// What deleting the account removes, trash included
+export type AccountDeletionSummary = {
+  kids: number;
+  folders: number;
+  videos: number;
+  recordings: number;
+  subscriptions: number;
+  kidAccessTokens: number;
+};
+
+// Family activity log
+export const ACTIVITY_EVENT_TYPES = [
+  "kid_added",
+  "kid_renamed",
+  "kid_deleted",
+  "kid_restored",
+  "kids_merged",
+  "kid_merge_undone",
+  "folder_deleted",
+  "folder_restored",
+  "video_added",
+  "video_moved",
+  "video_priority_changed",
+  "video_deleted",
+  "video_restored",
+  "completion_submitted",
+  "recording_reviewed",
+  "subscription_changed",
+  "family_imported",
+  "trash_purged",
+] as const;
+export type ActivityEventType = typeof ACTIVITY_EVENT_TYPES[number];
+
+// A parent session, a kid device (access token or legacy kid link), the playlist sync, or a
+// scheduled job such as the trash purge
+export const ACTIVITY_ACTORS = ["parent", "kid_device", "sync", "system"] as const;
+export type ActivityActor = typeof ACTIVITY_ACTORS[number];
+
+export const activityEventSchema = z.object({
+  id: z.string(),
+  type: z.enum(ACTIVITY_EVENT_TYPES),
+  actor: z.enum(ACTIVITY_ACTORS),
+  accessTokenId: z.string().nullable(),
+  kidId: z.string().nullable(),
+  videoId: z.string().nullable(),
+  details: z.record(z.string(), z.unknown()), // type-specific, e.g. { from, to } for a rename
+  createdAt: z.string(),
+});
+
+export type ActivityEvent = z.infer<typeof activityEventSchema>;
+export type NewActivityEvent = Pick<ActivityEvent, "type" | "actor"> & Partial<Pick<ActivityEvent, "accessTokenId" | "kidId" | "videoId" | "details">>;
+
+// Query string of GET /api/activity. Pages run newest first; pass the previous page's
+// nextCursor to continue.
+export const activityQuerySchema = z.object({
+  type: z.enum(ACTIVITY_EVENT_TYPES).optional(),
+  actor: z.enum(ACTIVITY_ACTORS).optional(),
+  kidId: z.string().optional(),
+  videoId: z.string().optional(),
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type ActivityQuery = z.infer<typeof activityQuerySchema>;
+export type ActivityPage = { events: ActivityEvent[]; nextCursor: string | null };
+
+// Bulk video import from pasted links or a CSV with url, playlist, priority and kids columns
+export const BULK_IMPORT_MAX_ROWS = 500;
+export const BULK_IMPORT_STATUSES = ["added", "duplicate", "invalid", "unresolved"] as const;
+export type BulkImportStatus = typeof BULK_IMPORT_STATUSES[number];
+
+export const bulkVideoImportSchema = z.object({
+  text: z.string().trim().min(1, "Paste some video links or a CSV"),
+  dryRun: z.boolean().default(false), // report what would happen without adding anything
+});
+
+// One row of the report. In a dry run "added" means the row would be added.
+export type BulkImportRow = {
+  line: number; // 1-based line in the pasted text
+  url: string;
+  status: BulkImportStatus;
+  error?: string;
+  resolvedUrl?: string; // TikTok short links
+  playlist: string | null;
+  priority: number;
+  kidIds: string[]; // empty = all kids
+  videoId?: string; // the added video, or the existing one for a duplicate
+};
+
+export type BulkImportResult = {
+  dryRun: boolean;
+  rows: BulkImportRow[];
+  counts: Record<BulkImportStatus, number>;
+  createdPlaylists: string[];
+};
+
+// Importing a YouTube playlist into a folder. Playlist order is spread over the priority
+// levels, first videos lowest; importing the same playlist again re-syncs its folder.
+export const PLAYLIST_IMPORT_MAX_VIDEOS = 200;
+
+export const youtubePlaylistImportSchema = z.object({
+  url: z.string().url("Must be a YouTube playlist URL"),
+  kidIds: z.array(z.string()).optional(), // if empty/undefined, assign to all kids
+});
+
+export const youtubePlaylistSyncSchema = youtubePlaylistImportSchema.pick({ kidIds: true });
+
+export type PlaylistSyncResult = {
+  folder: Folder;
+  added: string[]; // IDs of the videos this sync added
+  alreadyInFolder: number;
+  duplicates: number; // already in the library in another folder
+  truncated: boolean; // only the first PLAYLIST_IMPORT_MAX_VIDEOS videos were considered
+};
+
+// Platform details cached on each video
+export type VideoMetadata = {
+  title: string | null;
+  author: string | null;
+  durationSeconds: number | null;
+  thumbnailUrl: string | null;
+};
+
+// Query string of GET /api/videos. Without any parameters the route still returns the
+// whole library as a plain array.
+export const VIDEO_KID_STATUSES = ["unwatched", "watched", "awaiting_review"] as const;
+export type VideoKidStatus = typeof VIDEO_KID_STATUSES[number];
+export const VIDEO_SORTS = ["added", "title", "priority", "duration", "position"] as const;
+export type VideoSort = typeof VIDEO_SORTS[number];
+
+const videoQueryFields = z.object({
+  q: z.string().trim().min(1).optional(), // matches title or URL
+  folderId: z.string().optional(), // "none" = unfiled
+  platform: z.enum(VIDEO_PLATFORMS).optional(),
+  minPriority: z.coerce.number().int().min(VIDEO_PRIORITY_MIN).max(VIDEO_PRIORITY_MAX).optional(),
+  maxPriority: z.coerce.number().int().min(VIDEO_PRIORITY_MIN).max(VIDEO_PRIORITY_MAX).optional(),
+  kidId: z.string().optional(), // assigned to this kid, unless status says otherwise
+  status: z.enum(VIDEO_KID_STATUSES).optional(), // the kid's progress; needs kidId
+  sort: z.enum(VIDEO_SORTS).default("added"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Parameters that ask GET /api/videos for a page; anything else (e.g. a cache buster) doesn't
+export const VIDEO_QUERY_KEYS = Object.keys(videoQueryFields.shape);
+
+export const videoQuerySchema = videoQueryFields.refine(q => !q.status || q.kidId, { message: "status needs a kidId", path: ["status"] })
+  .refine(q => q.minPriority === undefined || q.maxPriority === undefined || q.minPriority <= q.maxPriority, { message: "minPriority is above maxPriority", path: ["minPriority"] });
+
+export type VideoQuery = z.infer<typeof videoQuerySchema>;
+export type VideoPage = { videos: Video[]; nextCursor: string | null };
+
+// Manual order: the full list of IDs, first to last. Videos and folders without a
+// position follow the ordered ones, oldest first.
+export const reorderSchema = z.object({
+  ids: z.array(z.string()).min(1, "ids is required"),
+});